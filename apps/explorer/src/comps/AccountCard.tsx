@@ -16,6 +16,7 @@ export function AccountCard(props: AccountCard.Props) {
 		createdTimestamp,
 		lastActivityTimestamp,
 		totalValue,
+		unpricedCurrencies = [],
 	} = props
 
 	const { copy, notifying } = useCopy()
@@ -62,9 +63,16 @@ export function AccountCard(props: AccountCard.Props) {
 							{totalValue !== undefined ? (
 								<span
 									className="text-[13px] text-primary"
-									title={PriceFormatter.format(totalValue)}
+									title={
+										unpricedCurrencies.length > 0
+											? `${PriceFormatter.format(totalValue)}, excluding ${unpricedCurrencies.join(', ')} tokens without a USD price`
+											: PriceFormatter.format(totalValue)
+									}
 								>
 									{PriceFormatter.format(totalValue, { format: 'short' })}
+									{unpricedCurrencies.length > 0 && (
+										<span className="text-tertiary">*</span>
+									)}
 								</span>
 							) : (
 								<span className="text-tertiary text-[13px]">…</span>
@@ -118,5 +126,7 @@ export declare namespace AccountCard {
 		lastActivityTimestamp?: bigint | undefined
 		createdTimestamp?: bigint | undefined
 		totalValue?: number | undefined
+		/** Currencies of held tokens left out of `totalValue`, as they have no USD price. */
+		unpricedCurrencies?: string[] | undefined
 	}
 }
@@ -0,0 +1,161 @@
+import { useQuery } from '@tanstack/react-query'
+import { ClientOnly } from '@tanstack/react-router'
+import type { Address } from 'ox'
+import * as React from 'react'
+import { cx } from '#cva.config.ts'
+import { DateFormatter, PriceFormatter } from '#lib/formatting'
+import { balanceHistoryQueryOptions } from '#lib/queries/account.ts'
+import type { BalanceHistoryInterval } from '#lib/server/account.server.ts'
+
+const width = 800
+const height = 120
+
+export function BalanceChart(props: BalanceChart.Props) {
+	const { address, token, className } = props
+
+	const [interval, setBucketInterval] =
+		React.useState<BalanceHistoryInterval>('day')
+	const [hoveredIndex, setHoveredIndex] = React.useState<number | null>(null)
+
+	const { data, isPending, error } = useQuery(
+		balanceHistoryQueryOptions({ address, token, interval }),
+	)
+	const points = data?.points ?? []
+
+	const format = (balance: number) =>
+		data?.symbol
+			? `${PriceFormatter.formatAmountShort(String(balance))} ${data.symbol}`
+			: PriceFormatter.format(balance, { format: 'short' })
+
+	const max = Math.max(0, ...points.map((point) => point.balance))
+	const min = Math.min(0, ...points.map((point) => point.balance))
+	const range = max - min || 1
+	const coordinates = points.map((point, index) => ({
+		x: points.length > 1 ? (index / (points.length - 1)) * width : width,
+		y: height - ((point.balance - min) / range) * height,
+	}))
+	const line = coordinates
+		.map(({ x, y }, index) => `${index === 0 ? 'M' : 'L'}${x} ${y}`)
+		.join(' ')
+	const area = coordinates.length
+		? `${line} L${width} ${height} L0 ${height} Z`
+		: ''
+
+	const hovered = hoveredIndex === null ? points.at(-1) : points[hoveredIndex]
+
+	return (
+		<div
+			className={cx(
+				'flex flex-col gap-[10px] px-[16px] py-[12px] border-b border-dashed border-distinct',
+				className,
+			)}
+		>
+			<div className="flex items-start justify-between gap-[12px] text-[13px]">
+				<ClientOnly fallback={<span className="text-tertiary">…</span>}>
+					{hovered ? (
+						<div className="flex flex-col">
+							<span
+								className="text-primary"
+								title={
+									data?.unpricedCurrencies.length
+										? `Excluding ${data.unpricedCurrencies.join(', ')} tokens without a USD price`
+										: undefined
+								}
+							>
+								{format(hovered.balance)}
+								{data?.unpricedCurrencies.length ? (
+									<span className="text-tertiary">*</span>
+								) : null}
+							</span>
+							<span className="text-tertiary text-[12px]">
+								{interval === 'day'
+									? DateFormatter.formatTimestampDate(BigInt(hovered.timestamp))
+									: DateFormatter.format(BigInt(hovered.timestamp))}
+							</span>
+						</div>
+					) : (
+						<span className="text-tertiary">
+							{error ? 'Failed to load balance history' : '…'}
+						</span>
+					)}
+				</ClientOnly>
+				<div className="flex items-center gap-[4px] text-[12px]">
+					{BalanceChart.intervals.map((option) => (
+						<button
+							key={option.value}
+							type="button"
+							onClick={() => setBucketInterval(option.value)}
+							className={cx(
+								'rounded-[4px] px-[6px] py-[2px] cursor-pointer press-down',
+								interval === option.value
+									? 'border border-accent/50 text-primary'
+									: 'text-tertiary hover:text-accent',
+							)}
+						>
+							{option.label}
+						</button>
+					))}
+				</div>
+			</div>
+			<svg
+				viewBox={`0 0 ${width} ${height}`}
+				preserveAspectRatio="none"
+				className={cx(
+					'w-full h-[120px] overflow-visible',
+					isPending && 'animate-pulse',
+				)}
+				role="img"
+				aria-label="Balance history"
+				onPointerMove={(event) => {
+					if (points.length === 0) return
+					const bounds = event.currentTarget.getBoundingClientRect()
+					const ratio = (event.clientX - bounds.left) / bounds.width
+					setHoveredIndex(
+						Math.min(
+							points.length - 1,
+							Math.max(0, Math.round(ratio * (points.length - 1))),
+						),
+					)
+				}}
+				onPointerLeave={() => setHoveredIndex(null)}
+			>
+				<path d={area} className="fill-accent/10" />
+				<path
+					d={line}
+					fill="none"
+					vectorEffect="non-scaling-stroke"
+					className="stroke-accent"
+					strokeWidth={1.5}
+				/>
+				{hoveredIndex !== null && coordinates[hoveredIndex] && (
+					<line
+						x1={coordinates[hoveredIndex].x}
+						x2={coordinates[hoveredIndex].x}
+						y1={0}
+						y2={height}
+						vectorEffect="non-scaling-stroke"
+						className="stroke-distinct"
+						strokeDasharray="3 3"
+					/>
+				)}
+			</svg>
+		</div>
+	)
+}
+
+export namespace BalanceChart {
+	export interface Props {
+		address: Address.Address
+		/** Chart the amount of a single token instead of the USD value of all holdings. */
+		token?: Address.Address | undefined
+		className?: string
+	}
+
+	export const intervals = [
+		{ value: 'day', label: '90D' },
+		{ value: 'hour', label: '7D' },
+	] as const satisfies ReadonlyArray<{
+		value: BalanceHistoryInterval
+		label: string
+	}>
+}
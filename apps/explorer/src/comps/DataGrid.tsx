@@ -16,6 +16,8 @@ export function DataGrid(props: DataGrid.Props) {
 		pagination = 'default',
 		emptyState = 'No items found.',
 		flexible = false,
+		cursors,
+		approximate,
 	} = props
 
 	const mode = Sections.useSectionsMode()
@@ -159,6 +161,8 @@ export function DataGrid(props: DataGrid.Props) {
 						itemsLabel={itemsLabel}
 						isPending={isPending}
 						compact={mode === 'stacked'}
+						cursors={cursors}
+						approximate={approximate}
 					/>
 				)}
 			</div>
@@ -202,5 +206,7 @@ export namespace DataGrid {
 		pagination?: 'default' | 'simple'
 		emptyState?: React.ReactNode
 		flexible?: boolean
+		cursors?: Pagination.Cursors | undefined
+		approximate?: boolean | undefined
 	}
 }
@@ -0,0 +1,55 @@
+import type { Address } from 'ox'
+import type * as React from 'react'
+import { cx } from '#cva.config.ts'
+import type { ExportFormat } from '#lib/server/export.server.ts'
+import DownloadIcon from '~icons/lucide/download'
+
+export function ExportLinks(props: ExportLinks.Props): React.JSX.Element {
+	const { resource, address, account, className } = props
+	const { since, until } = ExportLinks.range()
+
+	return (
+		<div className={cx('flex items-center gap-[8px] text-[12px]', className)}>
+			<DownloadIcon className="size-3 text-tertiary" />
+			{ExportLinks.formats.map((format) => {
+				const search = new URLSearchParams({ address, format, since, until })
+				if (account) search.set('account', account)
+				return (
+					<a
+						key={format}
+						href={`/api/export/${resource}?${search}`}
+						download
+						className="text-tertiary hover:text-accent press-down uppercase"
+						title={`Export ${resource} of the last ${ExportLinks.days} days as ${format.toUpperCase()}`}
+					>
+						{format}
+					</a>
+				)
+			})}
+		</div>
+	)
+}
+
+export namespace ExportLinks {
+	export interface Props {
+		resource: 'transactions' | 'transfers'
+		address: Address.Address
+		/** Only export the transfers of this account. */
+		account?: Address.Address | undefined
+		className?: string | undefined
+	}
+
+	export const formats = ['csv', 'ndjson'] as const satisfies ExportFormat[]
+
+	export const days = 30
+
+	/** The last {@link days} days, as UTC dates, up to the end of today. */
+	export function range() {
+		const day = 86_400_000
+		const until = Math.floor(Date.now() / day) * day + day
+		return {
+			since: new Date(until - days * day).toISOString().slice(0, 10),
+			until: new Date(until).toISOString().slice(0, 10),
+		}
+	}
+}
@@ -19,6 +19,8 @@ export function Pagination(props: Pagination.Props) {
 		isPending,
 		compact: compact_,
 		hideOnSinglePage = true,
+		cursors,
+		approximate,
 	} = props
 
 	const compact = compact_ || totalPages > 999
@@ -27,16 +29,108 @@ export function Pagination(props: Pagination.Props) {
 	const itemsLabel =
 		totalItems === 1 ? itemsLabel_.replace(/s$/, '') : itemsLabel_
 
-	if (hideOnSinglePage && totalPages <= 1)
+	if (hideOnSinglePage && totalPages <= 1 && !cursors?.next && !cursors?.prev)
 		return (
 			<div className="flex items-center justify-end px-[16px] py-[12px] text-[12px] text-tertiary">
 				<span className="text-primary tabular-nums">
+					{approximate && '~'}
 					{Pagination.numFormat.format(totalItems)}
 				</span>
 				<span className="ml-[8px]">{itemsLabel}</span>
 			</div>
 		)
 
+	// keyset pages can only be walked one at a time, from either end
+	if (cursors)
+		return (
+			<div className="flex flex-col items-center gap-[12px] sm:flex-row sm:justify-between px-[16px] py-[12px] text-[12px] text-tertiary w-full">
+				<div className="flex items-center gap-[6px]">
+					<Link
+						to="."
+						resetScroll={false}
+						search={(previous) => ({
+							...previous,
+							page: 1,
+							cursor: undefined,
+							direction: undefined,
+						})}
+						disabled={!cursors.prev || isPending}
+						className={cx(
+							'rounded-full! border border-base-border hover:bg-alt flex items-center justify-center cursor-pointer press-down aria-disabled:cursor-default aria-disabled:opacity-50 size-[24px] text-primary',
+						)}
+						title="First page"
+					>
+						<ChevronFirst className="size-[14px]" />
+					</Link>
+
+					<Link
+						to="."
+						resetScroll={false}
+						search={(previous) => ({
+							...previous,
+							page: Math.max(1, page - 1),
+							cursor: cursors.prev ?? undefined,
+							direction: 'prev',
+						})}
+						disabled={!cursors.prev || isPending}
+						className={cx(
+							'rounded-full! border border-base-border hover:bg-alt flex items-center justify-center cursor-pointer press-down aria-disabled:cursor-default aria-disabled:opacity-50 size-[24px] text-primary',
+						)}
+						title="Previous page"
+					>
+						<ChevronLeft className="size-[14px]" />
+					</Link>
+
+					<span className="text-primary font-medium tabular-nums px-[4px] whitespace-nowrap">
+						Page {Pagination.numFormat.format(page)} of {approximate && '~'}
+						{Pagination.numFormat.format(Math.max(page, totalPages))}
+					</span>
+
+					<Link
+						to="."
+						resetScroll={false}
+						search={(previous) => ({
+							...previous,
+							page: page + 1,
+							cursor: cursors.next ?? undefined,
+							direction: undefined,
+						})}
+						disabled={!cursors.next || isPending}
+						className={cx(
+							'rounded-full! border border-base-border hover:bg-alt flex items-center justify-center cursor-pointer press-down aria-disabled:cursor-default aria-disabled:opacity-50 size-[24px] text-primary',
+						)}
+						title="Next page"
+					>
+						<ChevronRight className="size-[14px]" />
+					</Link>
+
+					<Link
+						to="."
+						resetScroll={false}
+						search={(previous) => ({
+							...previous,
+							page: Math.max(page + 1, totalPages),
+							cursor: undefined,
+							direction: 'prev',
+						})}
+						disabled={!cursors.next || isPending}
+						className={cx(
+							'rounded-full! border border-base-border hover:bg-alt flex items-center justify-center cursor-pointer press-down aria-disabled:cursor-default aria-disabled:opacity-50 size-[24px] text-primary',
+						)}
+						title="Last page"
+					>
+						<ChevronLast className="size-[14px]" />
+					</Link>
+				</div>
+
+				<Pagination.Count
+					totalItems={totalItems}
+					itemsLabel={itemsLabel}
+					approximate={approximate}
+				/>
+			</div>
+		)
+
 	if (compact)
 		return (
 			<div className="flex flex-col items-center gap-[12px] sm:flex-row sm:justify-between px-[16px] py-[12px] text-[12px] text-tertiary w-full">
@@ -202,6 +296,15 @@ export namespace Pagination {
 		isPending: boolean
 		compact?: boolean
 		hideOnSinglePage?: boolean
+		/** Walk keyset pages with `cursor` and `direction` search params instead of `page` offsets. */
+		cursors?: Cursors | undefined
+		/** `totalItems` is an estimate. */
+		approximate?: boolean | undefined
+	}
+
+	export interface Cursors {
+		next: string | null
+		prev: string | null
 	}
 
 	export const Ellipsis = -1
@@ -308,7 +411,7 @@ export namespace Pagination {
 	}
 
 	export function Count(props: Count.Props) {
-		const { page, totalPages, totalItems, itemsLabel } = props
+		const { page, totalPages, totalItems, itemsLabel, approximate } = props
 		return (
 			<div className="flex items-center justify-center sm:justify-end gap-[8px]">
 				{page != null && totalPages != null && (
@@ -321,6 +424,7 @@ export namespace Pagination {
 					</>
 				)}
 				<span className="text-primary tabular-nums">
+					{approximate && '~'}
 					{Pagination.numFormat.format(totalItems)}
 				</span>
 				<span className="text-tertiary">{itemsLabel}</span>
@@ -334,6 +438,7 @@ export namespace Pagination {
 			totalPages?: number
 			totalItems: number
 			itemsLabel: string
+			approximate?: boolean | undefined
 		}
 	}
 }
@@ -1,4 +1,4 @@
-import { Address, Hex } from 'ox'
+import { Address, Hex, Value } from 'ox'
 import { Abis, Addresses } from 'tempo.ts/viem'
 import {
 	type AbiEvent,
@@ -8,6 +8,7 @@ import {
 	type TransactionReceipt,
 	zeroAddress,
 } from 'viem'
+import { DateFormatter } from '#lib/formatting'
 import type * as Tip20 from './tip20'
 
 const abi = Object.values(Abis).flat()
@@ -1148,3 +1149,32 @@ export function parseKnownEvents(
 
 	return knownEvents
 }
+
+function describeKnownEventPart(part: KnownEventPart): string {
+	switch (part.type) {
+		case 'account':
+		case 'action':
+		case 'hex':
+		case 'text':
+			return part.value
+		case 'amount': {
+			const { decimals, symbol, token, value } = part.value
+			return `${Value.format(value, decimals ?? 0)} ${symbol ?? token}`
+		}
+		case 'duration':
+			return DateFormatter.formatDuration(part.value)
+		case 'number':
+			return Array.isArray(part.value)
+				? Value.format(...part.value)
+				: Value.format(BigInt(part.value))
+		case 'tick':
+			return String(part.value)
+		case 'token':
+			return part.value.symbol ?? part.value.address
+	}
+}
+
+// plain text counterpart of TxEventDescription, e.g. for exports
+export function describeKnownEvent(event: KnownEvent): string {
+	return event.parts.map(describeKnownEventPart).join(' ')
+}
@@ -20,6 +20,10 @@ export type GetTip20MetadataFn = (
 
 export async function metadataFromLogs(
 	logs: Log[],
+	options?: {
+		/** Shares metadata requests across calls, keyed by lowercase address. */
+		cache?: Map<string, Promise<Metadata>>
+	},
 ): Promise<GetTip20MetadataFn> {
 	const events = parseEventLogs({ abi, logs })
 
@@ -27,8 +31,18 @@ export async function metadataFromLogs(
 		.map(({ address }) => address)
 		.filter(isTip20Address)
 
+	const cache = options?.cache
 	const metadataResults = await Promise.all(
-		tip20Addresses.map((token) => Actions.token.getMetadata(config, { token })),
+		tip20Addresses.map((token) => {
+			if (!cache) return Actions.token.getMetadata(config, { token })
+			const key = token.toLowerCase()
+			let metadata = cache.get(key)
+			if (!metadata) {
+				metadata = Actions.token.getMetadata(config, { token })
+				cache.set(key, metadata)
+			}
+			return metadata
+		}),
 	)
 	const map = new Map<string, Metadata>()
 	for (const [index, address] of tip20Addresses.entries())
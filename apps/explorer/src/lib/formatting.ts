@@ -172,6 +172,25 @@ export namespace PriceFormatter {
 		return formatter.format(normalizedValue)
 	}
 
+	/**
+	 * Formats a USD unit price, with enough digits to tell a stablecoin's
+	 * price apart from its peg.
+	 *
+	 * @param value - The price in USD.
+	 * @returns The formatted string.
+	 */
+	export function formatUsdPrice(value: number) {
+		return unitPriceIntl.format(value)
+	}
+
+	/** @internal */
+	const unitPriceIntl = new Intl.NumberFormat('en-US', {
+		minimumFractionDigits: 2,
+		maximumFractionDigits: 5,
+		currency: 'USD',
+		style: 'currency',
+	})
+
 	/** @internal */
 	const numberIntlShort = new Intl.NumberFormat('en-US', {
 		notation: 'compact',
@@ -4,9 +4,9 @@ import * as AccountServer from '#lib/server/account.server.ts'
 
 export type TransactionQueryParams = {
 	address: Address.Address
-	page: number
 	limit: number
-	offset: number
+	cursor?: string | undefined
+	direction?: 'next' | 'prev' | undefined
 	_key?: string | undefined
 }
 
@@ -15,7 +15,8 @@ export function transactionsQueryOptions(params: TransactionQueryParams) {
 		queryKey: [
 			'account-transactions',
 			params.address,
-			params.page,
+			params.cursor,
+			params.direction,
 			params.limit,
 			params._key,
 		],
@@ -23,7 +24,8 @@ export function transactionsQueryOptions(params: TransactionQueryParams) {
 			AccountServer.fetchTransactions({
 				data: {
 					address: params.address,
-					offset: params.offset,
+					cursor: params.cursor,
+					direction: params.direction,
 					limit: params.limit,
 				},
 			}),
@@ -39,3 +41,76 @@ export type TransactionsData = Awaited<
 		NonNullable<ReturnType<typeof transactionsQueryOptions>['queryFn']>
 	>
 >
+
+export type AssetsQueryParams = {
+	address: Address.Address
+	page: number
+	limit: number
+	sort: AccountServer.AssetsSortKey
+	order: 'asc' | 'desc'
+}
+
+export function assetsQueryOptions(params: AssetsQueryParams) {
+	return queryOptions({
+		queryKey: [
+			'account-assets',
+			params.address,
+			params.page,
+			params.limit,
+			params.sort,
+			params.order,
+		],
+		queryFn: () =>
+			AccountServer.fetchAssets({
+				data: {
+					address: params.address,
+					offset: (params.page - 1) * params.limit,
+					limit: params.limit,
+					sort: params.sort,
+					order: params.order,
+				},
+			}),
+		staleTime: 30_000,
+		placeholderData: keepPreviousData,
+	})
+}
+
+export type AssetsData = Awaited<
+	ReturnType<NonNullable<ReturnType<typeof assetsQueryOptions>['queryFn']>>
+>
+
+export function totalValueQueryOptions(params: { address: Address.Address }) {
+	return queryOptions({
+		queryKey: ['account-total-value', params.address],
+		queryFn: () =>
+			AccountServer.getTotalValue({ data: { address: params.address } }),
+		staleTime: 30_000,
+	})
+}
+
+export type BalanceHistoryQueryParams = {
+	address: Address.Address
+	token?: Address.Address | undefined
+	interval: AccountServer.BalanceHistoryInterval
+}
+
+export function balanceHistoryQueryOptions(params: BalanceHistoryQueryParams) {
+	return queryOptions({
+		queryKey: [
+			'account-balance-history',
+			params.address,
+			params.token,
+			params.interval,
+		],
+		queryFn: () =>
+			AccountServer.fetchBalanceHistory({
+				data: {
+					address: params.address,
+					token: params.token,
+					interval: params.interval,
+				},
+			}),
+		staleTime: 60_000,
+		placeholderData: keepPreviousData,
+	})
+}
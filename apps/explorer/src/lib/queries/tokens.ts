@@ -1,5 +1,6 @@
 import { keepPreviousData, queryOptions } from '@tanstack/react-query'
 import type { Address } from 'ox'
+import { fetchTokenPrice } from '#lib/server/prices.server.ts'
 import { fetchHolders, fetchTransfers } from '#lib/server/token.server.ts'
 import { fetchTokens } from '#lib/server/tokens.server.ts'
 
@@ -74,3 +75,11 @@ export function tokensListQueryOptions(params: {
 		placeholderData: keepPreviousData,
 	})
 }
+
+export function tokenPriceQueryOptions(params: { address: Address.Address }) {
+	return queryOptions({
+		queryKey: ['token-price', params.address],
+		queryFn: () => fetchTokenPrice({ data: { address: params.address } }),
+		staleTime: 60_000,
+	})
+}
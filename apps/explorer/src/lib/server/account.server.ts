@@ -1,10 +1,11 @@
 import { createServerFn } from '@tanstack/react-start'
 import * as IDX from 'idxs'
-import { Address, Hex } from 'ox'
-import { Abis } from 'tempo.ts/viem'
+import { Address, Base64, Hex } from 'ox'
+import { Actions } from 'tempo.ts/wagmi'
 import { formatUnits, type RpcTransaction } from 'viem'
-import { readContract } from 'wagmi/actions'
 import * as z from 'zod/mini'
+import * as Tip20 from '#lib/domain/tip20'
+import { getTokenPrice, type TokenPrice } from '#lib/server/prices.server.ts'
 import { zAddress } from '#lib/zod'
 import { config, getConfig } from '#wagmi.config.ts'
 
@@ -19,14 +20,86 @@ const [MAX_LIMIT, DEFAULT_LIMIT] = [1_000, 100]
 const TRANSFER_SIGNATURE =
 	'event Transfer(address indexed from, address indexed to, uint256 tokens)'
 
+const TRANSACTIONS_TOTAL_CACHING = 30_000
+
+const transactionsTotalCache = new Map<
+	string,
+	{
+		data: Promise<{ total: number; totalIsEstimate: boolean }>
+		timestamp: number
+	}
+>()
+
+/** Drop expired entries, caches are keyed by account and would grow unbounded. */
+function sweepCache(cache: Map<string, { timestamp: number }>, ttl: number) {
+	const now = Date.now()
+	for (const [key, { timestamp }] of cache)
+		if (now - timestamp >= ttl) cache.delete(key)
+}
+
+type TransactionsCursor = { blockNumber: bigint; hash: Hex.Hex }
+
+function encodeTransactionsCursor(cursor: TransactionsCursor) {
+	return Base64.fromString(`${cursor.blockNumber}:${cursor.hash}`, {
+		url: true,
+		pad: false,
+	})
+}
+
+/** @returns The cursor, or `undefined` if it is malformed */
+function decodeTransactionsCursor(
+	cursor: string,
+): TransactionsCursor | undefined {
+	let decoded: string
+	try {
+		decoded = Base64.toString(cursor)
+	} catch {
+		return undefined
+	}
+	const [blockNumber, hash] = decoded.split(':')
+	if (
+		!blockNumber ||
+		!/^\d+$/.test(blockNumber) ||
+		!hash ||
+		!Hex.validate(hash) ||
+		Hex.size(hash) !== 32
+	)
+		return undefined
+	return {
+		blockNumber: BigInt(blockNumber),
+		hash: hash.toLowerCase() as Hex.Hex,
+	}
+}
+
+function compareTransactionsCursors(
+	a: TransactionsCursor,
+	b: TransactionsCursor,
+) {
+	if (a.blockNumber !== b.blockNumber)
+		return a.blockNumber < b.blockNumber ? -1 : 1
+	const [hashA, hashB] = [a.hash.toLowerCase(), b.hash.toLowerCase()]
+	return hashA < hashB ? -1 : hashA > hashB ? 1 : 0
+}
+
+/**
+ * Transactions of an account, keyset paginated on `(block_num, hash)`: a page
+ * starts right after `cursor` in the `direction` of the cursor, and no cursor
+ * reads the first page, or the last one with the `prev` direction. When the
+ * total is exact, the last page holds the `total % limit` oldest rows.
+ */
 export const fetchTransactions = createServerFn()
 	.inputValidator(
 		z.object({
 			address: zAddress(),
-			offset: z.prefault(z.coerce.number(), 0),
+			cursor: z.optional(z.string()),
+			direction: z.prefault(z.enum(['next', 'prev']), 'next'),
 			limit: z.prefault(z.coerce.number(), 100),
 			include: z.prefault(z.enum(['all', 'sent', 'received']), 'all'),
 			sort: z.prefault(z.enum(['asc', 'desc']), 'desc'),
+			/** Unix timestamp (seconds), inclusive. */
+			since: z.optional(z.coerce.number()),
+			/** Unix timestamp (seconds), exclusive. */
+			until: z.optional(z.coerce.number()),
 		}),
 	)
 	.handler(async ({ data: params }) => {
@@ -41,11 +114,6 @@ export const fetchTransactions = createServerFn()
 					: 'all'
 		const sortDirection = params.sort === 'asc' ? 'asc' : 'desc'
 
-		const offset = Math.max(
-			0,
-			Number.isFinite(params.offset) ? Math.floor(params.offset) : 0,
-		)
-
 		let limit = Number.isFinite(params.limit)
 			? Math.floor(params.limit)
 			: DEFAULT_LIMIT
@@ -54,10 +122,37 @@ export const fetchTransactions = createServerFn()
 
 		if (limit < 1) limit = 1
 
+		const cursor = params.cursor
+			? decodeTransactionsCursor(params.cursor)
+			: undefined
+		// an invalid cursor, e.g. from an edited URL, reads the first page
+		const backwards =
+			params.direction === 'prev' && (cursor !== undefined || !params.cursor)
+
+		const totalsPromise = fetchTransactionsTotal(
+			{ ...params, include },
+			chainId,
+		)
+		// the last page only holds the remainder, so its rows and page number
+		// match the pages read from the first one. An estimated total would
+		// misalign them, the last page is then a full one.
+		if (backwards && !cursor) {
+			const { total, totalIsEstimate } = await totalsPromise
+			if (!totalIsEstimate) limit = total % limit || limit
+		}
+
+		// pages before the cursor are read in reverse, then flipped back
+		const queryDirection = backwards
+			? sortDirection === 'desc'
+				? 'asc'
+				: 'desc'
+			: sortDirection
+		const comparison = queryDirection === 'desc' ? '<' : '>'
+
 		const includeSent = include === 'all' || include === 'sent'
 		const includeReceived = include === 'all' || include === 'received'
 
-		const fetchSize = offset + limit + 1
+		const fetchSize = limit + 1
 
 		// Build direct transactions query
 		let directTxsQuery = QB.selectFrom('txs')
@@ -72,9 +167,34 @@ export const fetchTransactions = createServerFn()
 				'gas',
 				'gas_price',
 				'type',
+				'block_timestamp',
 			])
 			.where('chain', '=', chainId)
 
+		if (params.since !== undefined)
+			directTxsQuery = directTxsQuery.where(
+				'block_timestamp',
+				'>=',
+				params.since,
+			)
+		if (params.until !== undefined)
+			directTxsQuery = directTxsQuery.where(
+				'block_timestamp',
+				'<',
+				params.until,
+			)
+
+		if (cursor)
+			directTxsQuery = directTxsQuery.where((eb) =>
+				eb.or([
+					eb('block_num', comparison, cursor.blockNumber),
+					eb.and([
+						eb('block_num', '=', cursor.blockNumber),
+						eb('hash', comparison, cursor.hash),
+					]),
+				]),
+			)
+
 		if (includeSent && includeReceived) {
 			directTxsQuery = directTxsQuery.where((eb) =>
 				eb.or([eb('from', '=', params.address), eb('to', '=', params.address)]),
@@ -86,8 +206,8 @@ export const fetchTransactions = createServerFn()
 		}
 
 		directTxsQuery = directTxsQuery
-			.orderBy('block_num', sortDirection)
-			.orderBy('hash', sortDirection)
+			.orderBy('block_num', queryDirection)
+			.orderBy('hash', queryDirection)
 			.limit(fetchSize)
 
 		// Build transfer hashes query
@@ -97,6 +217,30 @@ export const fetchTransactions = createServerFn()
 			.distinct()
 			.where('chain', '=', chainId)
 
+		if (params.since !== undefined)
+			transferHashesQuery = transferHashesQuery.where(
+				'block_timestamp',
+				'>=',
+				params.since,
+			)
+		if (params.until !== undefined)
+			transferHashesQuery = transferHashesQuery.where(
+				'block_timestamp',
+				'<',
+				params.until,
+			)
+
+		if (cursor)
+			transferHashesQuery = transferHashesQuery.where((eb) =>
+				eb.or([
+					eb('block_num', comparison, cursor.blockNumber),
+					eb.and([
+						eb('block_num', '=', cursor.blockNumber),
+						eb('tx_hash', comparison, cursor.hash),
+					]),
+				]),
+			)
+
 		if (includeSent && includeReceived) {
 			transferHashesQuery = transferHashesQuery.where((eb) =>
 				eb.or([eb('from', '=', params.address), eb('to', '=', params.address)]),
@@ -112,23 +256,42 @@ export const fetchTransactions = createServerFn()
 		}
 
 		transferHashesQuery = transferHashesQuery
-			.orderBy('block_num', sortDirection)
-			.orderBy('tx_hash', sortDirection)
+			.orderBy('block_num', queryDirection)
+			.orderBy('tx_hash', queryDirection)
 			.limit(fetchSize)
 
-		const [directTxsResult, transferHashesResult] = await Promise.all([
+		const [directTxsResult, transferHashesResult, totals] = await Promise.all([
 			directTxsQuery.execute(),
 			transferHashesQuery.execute(),
+			totalsPromise,
 		])
 
+		// both results are sorted on the same key, so the first `fetchSize`
+		// keys of their union are the first `fetchSize` keys overall
+		const keysByHash = new Map<Hex.Hex, TransactionsCursor>()
+		for (const row of [...directTxsResult, ...transferHashesResult]) {
+			const hash = 'hash' in row ? row.hash : row.tx_hash
+			keysByHash.set(hash, { blockNumber: BigInt(row.block_num), hash })
+		}
+
+		const keys = [...keysByHash.values()]
+			.sort((a, b) =>
+				queryDirection === 'desc'
+					? compareTransactionsCursors(b, a)
+					: compareTransactionsCursors(a, b),
+			)
+			.slice(0, fetchSize)
+
+		const hasMore = keys.length > limit
+		const pageKeys = keys.slice(0, limit)
+		if (backwards) pageKeys.reverse()
+
 		const txsByHash = new Map<Hex.Hex, (typeof directTxsResult)[number]>()
 		for (const row of directTxsResult) txsByHash.set(row.hash, row)
 
-		const transferHashes: Hex.Hex[] = []
-		for (const row of transferHashesResult) {
-			const hash = row.tx_hash
-			if (!txsByHash.has(hash)) transferHashes.push(hash)
-		}
+		const transferHashes = pageKeys
+			.map(({ hash }) => hash)
+			.filter((hash) => !txsByHash.has(hash))
 
 		if (transferHashes.length > 0) {
 			const BATCH_SIZE = 500
@@ -147,6 +310,7 @@ export const fetchTransactions = createServerFn()
 						'gas',
 						'gas_price',
 						'type',
+						'block_timestamp',
 					])
 					.where('chain', '=', chainId)
 					.where('hash', 'in', batch)
@@ -156,127 +320,493 @@ export const fetchTransactions = createServerFn()
 			}
 		}
 
-		const sortedTxs = [...txsByHash.values()].sort((a, b) =>
-			sortDirection === 'desc'
-				? Number(b.block_num) - Number(a.block_num)
-				: Number(a.block_num) - Number(b.block_num),
-		)
+		const transactions = pageKeys.flatMap(({ hash }) => {
+			const row = txsByHash.get(hash)
+			if (!row) return []
 
-		const hasMore = sortedTxs.length > offset + limit
-		const paginatedTxs = sortedTxs.slice(offset, offset + limit)
-
-		const transactions: RpcTransaction[] = paginatedTxs.map((row) => {
 			const from = Address.checksum(row.from)
 			if (!from) throw new Error('Transaction is missing a "from" address')
 
 			const to = row.to ? Address.checksum(row.to) : null
 
-			return {
-				blockHash: null,
-				blockNumber: Hex.fromNumber(row.block_num),
-				chainId: chainIdHex,
-				from,
-				gas: Hex.fromNumber(row.gas),
-				gasPrice: Hex.fromNumber(row.gas_price),
-				hash: row.hash,
-				input: row.input,
-				nonce: Hex.fromNumber(row.nonce),
-				to,
-				transactionIndex: null,
-				value: Hex.fromNumber(row.value),
-				type: Hex.fromNumber(row.type) as RpcTransaction['type'],
-				v: '0x0',
-				r: '0x0',
-				s: '0x0',
-			} as RpcTransaction
+			return [
+				{
+					blockHash: null,
+					blockNumber: Hex.fromNumber(row.block_num),
+					chainId: chainIdHex,
+					from,
+					gas: Hex.fromNumber(row.gas),
+					gasPrice: Hex.fromNumber(row.gas_price),
+					hash: row.hash,
+					input: row.input,
+					nonce: Hex.fromNumber(row.nonce),
+					to,
+					transactionIndex: null,
+					value: Hex.fromNumber(row.value),
+					type: Hex.fromNumber(row.type) as RpcTransaction['type'],
+					v: '0x0',
+					r: '0x0',
+					s: '0x0',
+					timestamp: Number(row.block_timestamp),
+				} as RpcTransaction & { timestamp: number },
+			]
 		})
 
-		const nextOffset = offset + transactions.length
+		const [first, last] = [pageKeys.at(0), pageKeys.at(-1)]
+		// a page read forward has rows before it when it follows a cursor, and
+		// a page read backward has rows after it
+		const nextCursor =
+			last && (backwards ? cursor !== undefined : hasMore)
+				? encodeTransactionsCursor(last)
+				: null
+		const prevCursor =
+			first && (backwards ? hasMore : cursor !== undefined)
+				? encodeTransactionsCursor(first)
+				: null
 
 		return {
 			transactions,
-			total: hasMore ? nextOffset + 1 : nextOffset,
-			offset: nextOffset,
+			...totals,
+			nextCursor,
+			prevCursor,
 			limit: transactions.length,
-			hasMore,
 			error: null,
 		}
 	})
 
+type TransactionsTotalParams = {
+	address: Address.Address
+	include: 'all' | 'sent' | 'received'
+	since?: number | undefined
+	until?: number | undefined
+}
+
+function fetchTransactionsTotal(
+	params: TransactionsTotalParams,
+	chainId: number,
+) {
+	const { address, include, since, until } = params
+	const cacheKey = `${chainId}-${address.toLowerCase()}-${include}-${since}-${until}`
+
+	const cached = transactionsTotalCache.get(cacheKey)
+	if (cached && Date.now() - cached.timestamp < TRANSACTIONS_TOTAL_CACHING)
+		return cached.data
+
+	sweepCache(transactionsTotalCache, TRANSACTIONS_TOTAL_CACHING)
+	const data = countTransactions(params, chainId)
+	// failures are retried by the next request
+	data.catch(() => transactionsTotalCache.delete(cacheKey))
+	transactionsTotalCache.set(cacheKey, { data, timestamp: Date.now() })
+	return data
+}
+
+/**
+ * Direct transactions are counted exactly, and transactions the account
+ * received transfers in are added by distinct hash. Transfers received in a
+ * transaction the account sent or received are then counted twice, and
+ * transactions the account only sent transfers in, e.g. on its behalf, are
+ * not counted. The total is an estimate as soon as the account received a
+ * transfer that is counted, or sent any transfer that is listed.
+ */
+async function countTransactions(
+	params: TransactionsTotalParams,
+	chainId: number,
+) {
+	const { address, include, since, until } = params
+
+	let directQuery = QB.selectFrom('txs')
+		.select((eb) => eb.fn.count('hash').as('count'))
+		.where('chain', '=', chainId)
+	if (since !== undefined)
+		directQuery = directQuery.where('block_timestamp', '>=', since)
+	if (until !== undefined)
+		directQuery = directQuery.where('block_timestamp', '<', until)
+	directQuery =
+		include === 'all'
+			? directQuery.where((eb) =>
+					eb.or([eb('from', '=', address), eb('to', '=', address)]),
+				)
+			: directQuery.where(include === 'sent' ? 'from' : 'to', '=', address)
+
+	let transfersQuery = QB.withSignatures([TRANSFER_SIGNATURE])
+		.selectFrom('transfer')
+		.select((eb) => eb.fn.count('tx_hash').distinct().as('count'))
+		.where('chain', '=', chainId)
+		.where('to', '=', address)
+	// transfers to itself are in transactions it sent, counted directly
+	if (include === 'all')
+		transfersQuery = transfersQuery.where('from', '<>', address)
+	if (since !== undefined)
+		transfersQuery = transfersQuery.where('block_timestamp', '>=', since)
+	if (until !== undefined)
+		transfersQuery = transfersQuery.where('block_timestamp', '<', until)
+
+	// only whether there is one matters, not how many
+	let sentTransferQuery = QB.withSignatures([TRANSFER_SIGNATURE])
+		.selectFrom('transfer')
+		.select('tx_hash')
+		.where('chain', '=', chainId)
+		.where('from', '=', address)
+	if (since !== undefined)
+		sentTransferQuery = sentTransferQuery.where('block_timestamp', '>=', since)
+	if (until !== undefined)
+		sentTransferQuery = sentTransferQuery.where('block_timestamp', '<', until)
+
+	const [direct, transfers, sentTransfer] = await Promise.all([
+		directQuery.executeTakeFirstOrThrow(),
+		include === 'sent'
+			? { count: 0 }
+			: transfersQuery.executeTakeFirstOrThrow(),
+		include === 'received'
+			? undefined
+			: sentTransferQuery.limit(1).executeTakeFirst(),
+	])
+
+	return {
+		total: Number(direct.count) + Number(transfers.count),
+		totalIsEstimate: Number(transfers.count) > 0 || sentTransfer !== undefined,
+	}
+}
+
+export const ASSETS_SORT_KEYS = ['value', 'balance', 'name', 'symbol'] as const
+export type AssetsSortKey = (typeof ASSETS_SORT_KEYS)[number]
+
+export type AccountAsset = {
+	address: Address.Address
+	name: string
+	symbol: string
+	currency: string
+	decimals: number
+	balance: bigint
+	price: TokenPrice
+	/** USD value of the balance, `null` when the token cannot be priced. */
+	value: number | null
+}
+
+const ASSETS_CACHING = 30_000
+const ASSETS_BATCH_SIZE = 50
+
+const assetsCache = new Map<
+	string,
+	{ assets: Promise<AccountAsset[]>; timestamp: number }
+>()
+
+// name, symbol, currency and decimals of a token never change
+const metadataCache = new Map<Address.Address, Tip20.Metadata>()
+
+const FetchAssetsInputSchema = z.object({
+	address: zAddress({ lowercase: true }),
+	offset: z.coerce.number().check(z.gte(0)),
+	limit: z.coerce.number().check(z.gte(1), z.lte(MAX_LIMIT)),
+	sort: z.prefault(z.enum(ASSETS_SORT_KEYS), 'value'),
+	order: z.prefault(z.enum(['asc', 'desc']), 'desc'),
+})
+
+export type FetchAssetsInput = z.infer<typeof FetchAssetsInputSchema>
+
+export const fetchAssets = createServerFn({ method: 'POST' })
+	.inputValidator((input) => FetchAssetsInputSchema.parse(input))
+	.handler(async ({ data }) => {
+		const chainId = config.getClient().chain.id
+		const allAssets = await fetchAccountAssets(data.address, chainId)
+
+		const direction = data.order === 'asc' ? 1 : -1
+		const sortedAssets = [...allAssets].sort(
+			(a, b) =>
+				direction * compareAssets(a, b, data.sort) ||
+				a.address.localeCompare(b.address),
+		)
+
+		const assets = sortedAssets.slice(data.offset, data.offset + data.limit)
+
+		return {
+			assets,
+			total: allAssets.length,
+			...getHoldingsValue(allAssets),
+			offset: data.offset + assets.length,
+			limit: assets.length,
+		}
+	})
+
 export const getTotalValue = createServerFn()
 	.inputValidator(
 		z.object({
-			address: zAddress(),
+			address: zAddress({ lowercase: true }),
 		}),
 	)
 	.handler(async ({ data: params }) => {
-		const { address } = params
 		const chainId = config.getClient().chain.id
+		const assets = await fetchAccountAssets(params.address, chainId)
+		return getHoldingsValue(assets)
+	})
+
+export const BALANCE_HISTORY_INTERVALS = ['day', 'hour'] as const
+export type BalanceHistoryInterval = (typeof BALANCE_HISTORY_INTERVALS)[number]
+
+// 90 days, or 7 days of hours
+const BALANCE_HISTORY_BUCKETS = { day: 90, hour: 168 } as const
+const BALANCE_HISTORY_BUCKET_SIZES = { day: 86_400, hour: 3_600 } as const
+
+export type BalancePoint = {
+	/** Start of the bucket, in seconds. */
+	timestamp: number
+	/** Balance at the end of the bucket. */
+	balance: number
+}
+
+const FetchBalanceHistoryInputSchema = z.object({
+	address: zAddress({ lowercase: true }),
+	token: z.optional(zAddress({ lowercase: true })),
+	interval: z.prefault(z.enum(BALANCE_HISTORY_INTERVALS), 'day'),
+})
+
+export type FetchBalanceHistoryInput = z.infer<
+	typeof FetchBalanceHistoryInputSchema
+>
+
+/**
+ * Reconstruct the balance of an account over time from its indexed `Transfer`
+ * logs. With a token, balances are amounts of that token; otherwise they are
+ * the USD value of all holdings, at current prices.
+ */
+export const fetchBalanceHistory = createServerFn({ method: 'POST' })
+	.inputValidator((input) => FetchBalanceHistoryInputSchema.parse(input))
+	.handler(async ({ data }) => {
+		const chainId = config.getClient().chain.id
+		const { address, token, interval } = data
+
+		const bucketSize = BALANCE_HISTORY_BUCKET_SIZES[interval]
+		const lastBucket = Math.floor(Date.now() / 1_000 / bucketSize) * bucketSize
+		const firstBucket =
+			lastBucket - (BALANCE_HISTORY_BUCKETS[interval] - 1) * bucketSize
+
+		const qb = QB.withSignatures([TRANSFER_SIGNATURE])
+
+		// Sum the transfers before the first bucket per token instead of
+		// streaming the whole history of the account.
+		const sumTransfers = (direction: 'from' | 'to') => {
+			let query = qb
+				.selectFrom('transfer')
+				.select((eb) => [
+					eb.ref('address').as('address'),
+					eb.fn.sum('tokens').as('amount'),
+				])
+				.where('chain', '=', chainId)
+				.where(direction, '=', address)
+				.where('block_timestamp', '<', firstBucket)
+			if (token) query = query.where('address', '=', token)
+			return query.groupBy('address').execute()
+		}
 
-		const result = await QB.withSignatures([TRANSFER_SIGNATURE])
+		let query = qb
 			.selectFrom('transfer')
-			.select(['address', 'from', 'to', 'tokens'])
+			.select(['address', 'from', 'to', 'tokens', 'block_timestamp'])
 			.where('chain', '=', chainId)
 			.where((eb) => eb.or([eb('from', '=', address), eb('to', '=', address)]))
-			.execute()
+			.where('block_timestamp', '>=', firstBucket)
+		if (token) query = query.where('address', '=', token)
+
+		const [received, sent, result] = await Promise.all([
+			sumTransfers('to'),
+			sumTransfers('from'),
+			query.orderBy('block_num', 'asc').orderBy('log_idx', 'asc').execute(),
+		])
 
-		// Calculate balance per token
 		const balances = new Map<string, bigint>()
-		for (const row of result) {
-			const tokenAddress = String(row.address)
-			const from = String(row.from).toLowerCase()
-			const to = String(row.to).toLowerCase()
-			const tokens = BigInt(row.tokens)
-			const addressLower = address.toLowerCase()
-
-			const currentBalance = balances.get(tokenAddress) ?? 0n
-			let newBalance = currentBalance
-			if (to === addressLower) {
-				newBalance += tokens
-			}
-			if (from === addressLower) {
-				newBalance -= tokens
-			}
-			balances.set(tokenAddress, newBalance)
-		}
+		for (const row of received)
+			balances.set(
+				row.address,
+				(balances.get(row.address) ?? 0n) + BigInt(row.amount),
+			)
+		for (const row of sent)
+			balances.set(
+				row.address,
+				(balances.get(row.address) ?? 0n) - BigInt(row.amount),
+			)
 
-		// Filter for positive balances
-		const rowsWithBalance = [...balances.entries()]
-			.filter(([_, balance]) => balance > 0n)
-			.map(([token_address, balance]) => ({ token_address, balance }))
-
-		const decimals =
-			(await Promise.all(
-				rowsWithBalance.map((row) =>
-					// TODO: use readContracts when multicall is not broken
-					readContract(getConfig(), {
-						address: row.token_address as Address.Address,
-						abi: Abis.tip20,
-						functionName: 'decimals',
-					}),
-				),
-			)) ?? []
-
-		const decimalsMap = new Map<Address.Address, number>(
-			decimals.map((decimal, index) => [
-				rowsWithBalance[index].token_address as Address.Address,
-				decimal,
-			]),
+		const rows = result.filter((row) => Tip20.isTip20Address(row.address))
+		const tokens = [
+			...new Set([...balances.keys(), ...rows.map((row) => row.address)]),
+		].filter((tokenAddress) => Tip20.isTip20Address(tokenAddress))
+
+		// value of one base unit of each token, in the unit of the series
+		const wagmiConfig = getConfig()
+		const unitValues = new Map<string, number>()
+		const unpricedCurrencies = new Set<string>()
+		await Promise.all(
+			tokens.map(async (tokenAddress) => {
+				const metadata = await getTokenMetadata(wagmiConfig, tokenAddress)
+				const unit = 10 ** -metadata.decimals
+				if (token) return unitValues.set(tokenAddress, unit)
+				const { price } = await getTokenPriceOrUnpriced(
+					tokenAddress,
+					metadata.currency,
+				)
+				if (price === null) unpricedCurrencies.add(metadata.currency)
+				else unitValues.set(tokenAddress, unit * price)
+			}),
 		)
+		const symbol = token
+			? (await getTokenMetadata(wagmiConfig, token)).symbol
+			: null
+
+		const points: BalancePoint[] = []
+		let rowIndex = 0
+		for (let bucket = firstBucket; bucket <= lastBucket; bucket += bucketSize) {
+			for (; rowIndex < rows.length; rowIndex++) {
+				const row = rows[rowIndex]
+				if (Number(row.block_timestamp) >= bucket + bucketSize) break
+				let balance = balances.get(row.address) ?? 0n
+				if (row.to.toLowerCase() === address) balance += BigInt(row.tokens)
+				if (row.from.toLowerCase() === address) balance -= BigInt(row.tokens)
+				balances.set(row.address, balance)
+			}
 
-		const PRICE_PER_TOKEN = 1 // TODO: fetch actual price per token
-
-		const totalValue = rowsWithBalance
-			.map((row) => {
-				const tokenDecimals =
-					decimalsMap.get(row.token_address as Address.Address) ?? 0
-				return Number(formatUnits(row.balance, tokenDecimals))
-			})
-			.reduce((acc, balance) => acc + balance * PRICE_PER_TOKEN, 0)
+			let total = 0
+			for (const [tokenAddress, balance] of balances)
+				total += Number(balance) * (unitValues.get(tokenAddress) ?? 0)
+			points.push({ timestamp: bucket, balance: total })
+		}
 
-		return totalValue
+		return {
+			interval,
+			points,
+			/** Symbol of the token, or `null` when balances are in USD. */
+			symbol,
+			unpricedCurrencies: [...unpricedCurrencies],
+		}
 	})
 
+function fetchAccountAssets(
+	address: Address.Address,
+	chainId: number,
+): Promise<AccountAsset[]> {
+	const cacheKey = `${chainId}-${address}`
+	const cached = assetsCache.get(cacheKey)
+	if (cached && Date.now() - cached.timestamp < ASSETS_CACHING)
+		return cached.assets
+
+	// the assets tab and the total value ask for the same account at once,
+	// share one discovery between them
+	sweepCache(assetsCache, ASSETS_CACHING)
+	const assets = discoverAccountAssets(address, chainId)
+	assets.catch(() => assetsCache.delete(cacheKey))
+	assetsCache.set(cacheKey, { assets, timestamp: Date.now() })
+	return assets
+}
+
+/**
+ * Discover the TIP-20 tokens an account holds: every token it ever sent or
+ * received, from the indexed `Transfer` logs, with its current on-chain
+ * balance. Tokens the account no longer holds are left out.
+ */
+async function discoverAccountAssets(
+	address: Address.Address,
+	chainId: number,
+): Promise<AccountAsset[]> {
+	const result = await QB.withSignatures([TRANSFER_SIGNATURE])
+		.selectFrom('transfer')
+		.select(['address'])
+		.distinct()
+		.where('chain', '=', chainId)
+		.where((eb) => eb.or([eb('from', '=', address), eb('to', '=', address)]))
+		.execute()
+
+	const tokens = result
+		.map((row) => row.address)
+		.filter((token) => Tip20.isTip20Address(token))
+
+	const wagmiConfig = getConfig()
+	const assets: AccountAsset[] = []
+	for (let index = 0; index < tokens.length; index += ASSETS_BATCH_SIZE) {
+		const batch = tokens.slice(index, index + ASSETS_BATCH_SIZE)
+		const batchAssets = await Promise.all(
+			batch.map(async (token) => {
+				const [metadata, balance] = await Promise.all([
+					getTokenMetadata(wagmiConfig, token),
+					Actions.token.getBalance(wagmiConfig, { token, account: address }),
+				])
+				if (balance === 0n) return undefined
+				const price = await getTokenPriceOrUnpriced(token, metadata.currency)
+				return {
+					address: Address.checksum(token),
+					name: metadata.name,
+					symbol: metadata.symbol,
+					currency: metadata.currency,
+					decimals: metadata.decimals,
+					balance,
+					price,
+					value:
+						price.price === null
+							? null
+							: Number(formatUnits(balance, metadata.decimals)) * price.price,
+				}
+			}),
+		)
+		for (const asset of batchAssets) if (asset) assets.push(asset)
+	}
+
+	return assets
+}
+
+/**
+ * Price a token, leaving it unpriced when the exchange can't be read, so one
+ * token doesn't fail the value of every holding.
+ */
+async function getTokenPriceOrUnpriced(
+	token: Address.Address,
+	currency: string,
+): Promise<TokenPrice> {
+	try {
+		return await getTokenPrice(token, currency)
+	} catch (error) {
+		console.error(error)
+		return { price: null, currency, source: 'unsupported' }
+	}
+}
+
+async function getTokenMetadata(
+	wagmiConfig: ReturnType<typeof getConfig>,
+	token: Address.Address,
+) {
+	const cached = metadataCache.get(token)
+	if (cached) return cached
+	const metadata = await Actions.token.getMetadata(wagmiConfig, { token })
+	metadataCache.set(token, metadata)
+	return metadata
+}
+
+/**
+ * Sum the USD value of holdings. Tokens without a USD price are left out and
+ * their currencies reported instead.
+ */
+function getHoldingsValue(assets: AccountAsset[]) {
+	let totalValue = 0
+	const unpricedCurrencies = new Set<string>()
+	for (const asset of assets) {
+		if (asset.value === null) unpricedCurrencies.add(asset.currency)
+		else totalValue += asset.value
+	}
+	return { totalValue, unpricedCurrencies: [...unpricedCurrencies] }
+}
+
+function compareAssets(a: AccountAsset, b: AccountAsset, sort: AssetsSortKey) {
+	switch (sort) {
+		case 'name':
+			return a.name.localeCompare(b.name)
+		case 'symbol':
+			return a.symbol.localeCompare(b.symbol)
+		case 'balance':
+			return (
+				Number(formatUnits(a.balance, a.decimals)) -
+				Number(formatUnits(b.balance, b.decimals))
+			)
+		case 'value':
+			// unpriced assets rank below every priced one
+			return (a.value ?? -1) - (b.value ?? -1)
+	}
+}
+
 export const FetchAddressTransactionsCountSchema = z.object({
 	address: zAddress({ lowercase: true }),
 	chainId: z.coerce.number(),
@@ -303,3 +833,5 @@ export const fetchAddressTransactionsCount = createServerFn({ method: 'GET' })
 
 		return txSent + txReceived
 	})
+
+export { MAX_LIMIT, DEFAULT_LIMIT }
@@ -0,0 +1,385 @@
+import { Address, Hex, Value } from 'ox'
+import { Abis } from 'tempo.ts/viem'
+import { parseEventLogs, type TransactionReceipt } from 'viem'
+import { getTransactionReceipt } from 'wagmi/actions'
+import {
+	describeKnownEvent,
+	type KnownEvent,
+	parseKnownEvent,
+	parseKnownEvents,
+} from '#lib/domain/known-events'
+import { getFeeBreakdown } from '#lib/domain/receipt'
+import * as Tip20 from '#lib/domain/tip20'
+import { fetchTransactions } from '#lib/server/account.server.ts'
+import {
+	fetchTransfersData,
+	type TransferKey,
+} from '#lib/server/token.server.ts'
+import { getConfig } from '#wagmi.config.ts'
+
+/**
+ * Receipts loaded for each chunk of the stream, bounding the subrequests made
+ * before the consumer reads the rows.
+ */
+const RECEIPTS_BATCH_SIZE = 20
+
+/** Transactions or transfers read from the index at a time. */
+const PAGE_SIZE = 100
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+const TRANSACTION_COLUMNS = [
+	'timestamp',
+	'blockNumber',
+	'transactionHash',
+	'from',
+	'to',
+	'event',
+	'description',
+	'amount',
+	'token',
+	'symbol',
+	'memo',
+	'fee',
+	'feeSymbol',
+] as const
+
+const TRANSFER_COLUMNS = [
+	'timestamp',
+	'blockNumber',
+	'transactionHash',
+	'logIndex',
+	'from',
+	'to',
+	'amount',
+	'token',
+	'symbol',
+	'description',
+	'memo',
+	'fee',
+	'feeSymbol',
+] as const
+
+type Row<columns extends readonly string[]> = Record<
+	columns[number],
+	string | number | null
+>
+
+export type TransactionExportRow = Row<typeof TRANSACTION_COLUMNS>
+export type TransferExportRow = Row<typeof TRANSFER_COLUMNS>
+
+type ExportRange = {
+	/** Unix timestamp (seconds), inclusive. */
+	since: number
+	/** Unix timestamp (seconds), exclusive. */
+	until: number
+}
+
+/**
+ * Export every transaction of an account in a time range, one row per known
+ * event, newest first. Fees are reported on the first row of each
+ * transaction. Pages are read as the stream is consumed.
+ */
+export function exportTransactions(
+	params: ExportRange & { address: Address.Address; format: ExportFormat },
+): ReadableStream<Uint8Array> {
+	return encodeRows(transactionRows(params), TRANSACTION_COLUMNS, params.format)
+}
+
+/**
+ * Export every transfer of a token in a time range, optionally limited to the
+ * transfers of an account, newest first. Fees are reported on the first row
+ * of each transaction. Pages are read as the stream is consumed.
+ */
+export function exportTransfers(
+	params: ExportRange & {
+		token: Address.Address
+		account?: Address.Address | undefined
+		format: ExportFormat
+	},
+): ReadableStream<Uint8Array> {
+	return encodeRows(transferRows(params), TRANSFER_COLUMNS, params.format)
+}
+
+export function exportResponse(
+	body: ReadableStream<Uint8Array>,
+	options: { format: ExportFormat; filename: string },
+) {
+	const { format, filename } = options
+	return new Response(body, {
+		headers: {
+			'Content-Type':
+				format === 'csv'
+					? 'text/csv; charset=utf-8'
+					: 'application/x-ndjson; charset=utf-8',
+			'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+			'Cache-Control': 'no-store',
+		},
+	})
+}
+
+async function* transactionRows(
+	params: ExportRange & { address: Address.Address },
+): AsyncGenerator<TransactionExportRow> {
+	const metadataCache = new Map<string, Promise<Tip20.Metadata>>()
+
+	let cursor: string | undefined
+	do {
+		const page = await fetchTransactions({
+			data: {
+				address: params.address,
+				cursor,
+				limit: PAGE_SIZE,
+				since: params.since,
+				until: params.until,
+			},
+		})
+
+		for (
+			let index = 0;
+			index < page.transactions.length;
+			index += RECEIPTS_BATCH_SIZE
+		) {
+			const batch = await Promise.all(
+				page.transactions
+					.slice(index, index + RECEIPTS_BATCH_SIZE)
+					.map(async (transaction) => ({
+						transaction,
+						...(await loadReceipt(transaction.hash, metadataCache)),
+					})),
+			)
+
+			for (const { transaction, receipt, getTokenMetadata } of batch) {
+				const knownEvents = parseKnownEvents(receipt, {
+					transaction,
+					getTokenMetadata,
+				})
+				const fee = getFee(receipt, getTokenMetadata)
+
+				const transactionFields = {
+					timestamp: toIsoDate(transaction.timestamp),
+					blockNumber: String(Hex.toBigInt(transaction.blockNumber ?? '0x0')),
+					transactionHash: transaction.hash,
+					from: transaction.from,
+					to: transaction.to,
+				}
+
+				if (knownEvents.length === 0) {
+					yield {
+						...transactionFields,
+						event: null,
+						description: null,
+						amount: null,
+						token: null,
+						symbol: null,
+						memo: null,
+						...fee,
+					}
+					continue
+				}
+
+				for (const [eventIndex, event] of knownEvents.entries())
+					yield {
+						...transactionFields,
+						...getEventFields(event),
+						...(eventIndex === 0 ? fee : { fee: null, feeSymbol: null }),
+					}
+			}
+		}
+
+		cursor = page.nextCursor ?? undefined
+	} while (cursor)
+}
+
+async function* transferRows(
+	params: ExportRange & {
+		token: Address.Address
+		account?: Address.Address | undefined
+	},
+): AsyncGenerator<TransferExportRow> {
+	const { token } = params
+	const chainId = getConfig().getClient().chain.id
+	const metadataCache = new Map<string, Promise<Tip20.Metadata>>()
+	// the transfers of a transaction are next to each other, and can span
+	// batches and pages: only report its fee on the first one
+	let feeReportedFor: Hex.Hex | undefined
+
+	// paged on `(block_num, log_idx)`: transfers indexed during the export do
+	// not shift the pages, and there is no total to count
+	let before: TransferKey | undefined
+	for (;;) {
+		const page = await fetchTransfersData(
+			token,
+			PAGE_SIZE,
+			0,
+			chainId,
+			params.account,
+			{ ...params, before },
+		)
+
+		for (let index = 0; index < page.length; index += RECEIPTS_BATCH_SIZE) {
+			const transfers = page.slice(index, index + RECEIPTS_BATCH_SIZE)
+			const hashes = [...new Set(transfers.map((t) => t.transactionHash))]
+			const receipts = new Map(
+				await Promise.all(
+					hashes.map(
+						async (hash) =>
+							[hash, await loadReceipt(hash, metadataCache)] as const,
+					),
+				),
+			)
+
+			for (const transfer of transfers) {
+				const loaded = receipts.get(transfer.transactionHash)
+				if (!loaded) continue
+				const { receipt, getTokenMetadata } = loaded
+
+				const metadata = getTokenMetadata(token)
+				const log = findTransferLog(receipt, token, transfer)
+				const event = log ? parseKnownEvent(log, { getTokenMetadata }) : null
+
+				const fee =
+					feeReportedFor === transfer.transactionHash
+						? { fee: null, feeSymbol: null }
+						: getFee(receipt, getTokenMetadata)
+				feeReportedFor = transfer.transactionHash
+
+				yield {
+					timestamp: transfer.timestamp
+						? toIsoDate(Number(transfer.timestamp))
+						: null,
+					blockNumber: transfer.blockNumber,
+					transactionHash: transfer.transactionHash,
+					logIndex: transfer.logIndex,
+					from: Address.checksum(transfer.from),
+					to: Address.checksum(transfer.to),
+					amount: Value.format(BigInt(transfer.value), metadata?.decimals ?? 0),
+					token: Address.checksum(token),
+					symbol: metadata?.symbol ?? null,
+					description: event ? describeKnownEvent(event) : null,
+					memo: event ? getMemo(event) : null,
+					...fee,
+				}
+			}
+		}
+
+		const last = page.at(-1)
+		if (!last || page.length < PAGE_SIZE) return
+		before = { blockNumber: BigInt(last.blockNumber), logIndex: last.logIndex }
+	}
+}
+
+async function loadReceipt(
+	hash: Hex.Hex,
+	metadataCache: Map<string, Promise<Tip20.Metadata>>,
+) {
+	const receipt = await getTransactionReceipt(getConfig(), { hash })
+	const getTokenMetadata = await Tip20.metadataFromLogs(receipt.logs, {
+		cache: metadataCache,
+	})
+	return { receipt, getTokenMetadata }
+}
+
+// the indexer only tracks `Transfer` logs, prefer the paired
+// `TransferWithMemo` log which carries the memo
+function findTransferLog(
+	receipt: TransactionReceipt,
+	token: Address.Address,
+	transfer: {
+		from: Address.Address
+		to: Address.Address
+		value: string
+		logIndex: number
+	},
+) {
+	const withMemo = parseEventLogs({
+		abi: Abis.tip20,
+		eventName: 'TransferWithMemo',
+		logs: receipt.logs,
+	}).find(
+		({ address, args }) =>
+			Address.isEqual(address, token) &&
+			Address.isEqual(args.from, transfer.from) &&
+			Address.isEqual(args.to, transfer.to) &&
+			args.amount === BigInt(transfer.value),
+	)
+	return (
+		withMemo ?? receipt.logs.find((log) => log.logIndex === transfer.logIndex)
+	)
+}
+
+function getEventFields(event: KnownEvent) {
+	const amount = event.parts.find((part) => part.type === 'amount')?.value
+	return {
+		event: event.type,
+		description: describeKnownEvent(event),
+		amount: amount ? Value.format(amount.value, amount.decimals ?? 0) : null,
+		token: amount?.token ?? null,
+		symbol: amount?.symbol ?? null,
+		memo: getMemo(event),
+	}
+}
+
+function getMemo(event: KnownEvent) {
+	return typeof event.note === 'string' && event.note ? event.note : null
+}
+
+function getFee(
+	receipt: TransactionReceipt,
+	getTokenMetadata: Tip20.GetTip20MetadataFn,
+) {
+	const fees = getFeeBreakdown(receipt, { getTokenMetadata })
+	if (fees.length === 0) return { fee: null, feeSymbol: null }
+	return {
+		fee: fees
+			.map(({ amount, decimals }) => Value.format(amount, decimals))
+			.join(' + '),
+		feeSymbol: fees
+			.map(({ symbol, token, currency }) => symbol ?? token ?? currency)
+			.join(' + '),
+	}
+}
+
+function toIsoDate(timestamp: number) {
+	return new Date(timestamp * 1_000).toISOString()
+}
+
+function encodeRows<columns extends readonly string[]>(
+	rows: AsyncGenerator<Row<columns>>,
+	columns: columns,
+	format: ExportFormat,
+): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder()
+	const lines = (async function* () {
+		if (format === 'csv') yield `${columns.join(',')}\n`
+		for await (const row of rows)
+			yield format === 'csv'
+				? `${columns.map((column) => toCsvField(row[column as columns[number]])).join(',')}\n`
+				: `${JSON.stringify(row)}\n`
+	})()
+
+	return new ReadableStream({
+		async pull(controller) {
+			try {
+				const { done, value } = await lines.next()
+				if (done) controller.close()
+				else controller.enqueue(encoder.encode(value))
+			} catch (error) {
+				console.error(error)
+				controller.error(error)
+			}
+		},
+		async cancel() {
+			await lines.return(undefined)
+		},
+	})
+}
+
+function toCsvField(value: string | number | null) {
+	if (value === null) return ''
+	let field = String(value)
+	// keep spreadsheets from evaluating memos as formulas
+	if (/^[=+\-@\t\r]/.test(field)) field = `'${field}`
+	return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field
+}
@@ -0,0 +1,100 @@
+import { createServerFn } from '@tanstack/react-start'
+import type { Address } from 'ox'
+import { Abis, Addresses, Tick } from 'tempo.ts/viem'
+import { Actions } from 'tempo.ts/wagmi'
+import { zeroAddress } from 'viem'
+import { readContract } from 'wagmi/actions'
+import * as z from 'zod/mini'
+import { zAddress } from '#lib/zod'
+import { getConfig } from '#wagmi.config.ts'
+
+const PRICES_CACHING = 60_000
+
+export type TokenPrice = {
+	/** USD price of one token, `null` when the token cannot be priced. */
+	price: number | null
+	currency: string
+	/**
+	 * - `exchange`: mid price of the best bid and ask on the stablecoin exchange
+	 * - `peg`: USD token without orders, valued at its peg
+	 * - `unsupported`: non-USD currency, the exchange only quotes USD tokens, or
+	 *   the exchange could not be read
+	 */
+	source: 'exchange' | 'peg' | 'unsupported'
+}
+
+const pricesCache = new Map<
+	string,
+	{ price: Promise<TokenPrice>; timestamp: number }
+>()
+
+/**
+ * Get the USD price of a TIP-20 token. Every USD token trades against its
+ * quote token on the stablecoin exchange, and quote tokens lead to pathUSD,
+ * which is valued at $1.
+ * @param token Token address
+ * @param currency Currency of the token, from its metadata
+ */
+export function getTokenPrice(
+	token: Address.Address,
+	currency: string,
+): Promise<TokenPrice> {
+	const cacheKey = token.toLowerCase()
+	const cached = pricesCache.get(cacheKey)
+	if (cached && Date.now() - cached.timestamp < PRICES_CACHING)
+		return cached.price
+
+	const price = fetchTokenPriceData(token, currency)
+	// failures are retried by the next request
+	price.catch(() => pricesCache.delete(cacheKey))
+	pricesCache.set(cacheKey, { price, timestamp: Date.now() })
+	return price
+}
+
+async function fetchTokenPriceData(
+	token: Address.Address,
+	currency: string,
+): Promise<TokenPrice> {
+	if (currency !== 'USD')
+		return { price: null, currency, source: 'unsupported' }
+	if (token.toLowerCase() === Addresses.pathUsd)
+		return { price: 1, currency, source: 'peg' }
+
+	const wagmiConfig = getConfig()
+	const quote = await readContract(wagmiConfig, {
+		address: token,
+		abi: Abis.tip20,
+		functionName: 'quoteToken',
+	})
+	const [book, quotePrice] = await Promise.all([
+		Actions.dex.getOrderbook(wagmiConfig, { base: token, quote }),
+		getTokenPrice(quote, 'USD'),
+	])
+
+	// the book of a pair that was never created is zeroed, and empty sides of
+	// a book have their best tick out of bounds
+	const ticks =
+		book.base === zeroAddress
+			? []
+			: [book.bestBidTick, book.bestAskTick].filter(
+					(tick) => tick >= Tick.minTick && tick <= Tick.maxTick,
+				)
+	if (ticks.length === 0 || quotePrice.price === null)
+		return { price: quotePrice.price, currency, source: 'peg' }
+
+	const midPrice =
+		ticks.reduce((sum, tick) => sum + Number(Tick.toPrice(tick)), 0) /
+		ticks.length
+	return { price: midPrice * quotePrice.price, currency, source: 'exchange' }
+}
+
+export const fetchTokenPrice = createServerFn({ method: 'GET' })
+	.inputValidator((input) =>
+		z.object({ address: zAddress({ lowercase: true }) }).parse(input),
+	)
+	.handler(async ({ data }) => {
+		const { currency } = await Actions.token.getMetadata(getConfig(), {
+			token: data.address,
+		})
+		return getTokenPrice(data.address, currency)
+	})
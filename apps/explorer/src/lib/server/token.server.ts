@@ -164,6 +164,10 @@ const FetchTokenTransfersInputSchema = z.object({
 	offset: z.coerce.number().check(z.gte(0)),
 	limit: z.coerce.number().check(z.gte(1), z.lte(MAX_LIMIT)),
 	account: z.optional(zAddress({ lowercase: true })),
+	/** Unix timestamp (seconds), inclusive. */
+	since: z.optional(z.coerce.number()),
+	/** Unix timestamp (seconds), exclusive. */
+	until: z.optional(z.coerce.number()),
 })
 
 export type FetchTokenTransfersInput = z.infer<
@@ -185,6 +189,11 @@ export type TokenTransfersApiResponse = {
 	limit: number
 }
 
+type TimestampRange = { since?: number; until?: number }
+
+/** Position of a transfer in the `(block_num, log_idx)` order. */
+export type TransferKey = { blockNumber: bigint; logIndex: number }
+
 export const fetchTransfers = createServerFn({ method: 'POST' })
 	.inputValidator((input) => FetchTokenTransfersInputSchema.parse(input))
 	.handler(async ({ data }) => {
@@ -196,8 +205,9 @@ export const fetchTransfers = createServerFn({ method: 'POST' })
 				data.offset,
 				chainId,
 				data.account,
+				data,
 			),
-			fetchTotalCount(data.address, chainId, data.account),
+			fetchTotalCount(data.address, chainId, data.account, data),
 		])
 
 		const nextOffset = data.offset + (transfers?.length ?? 0)
@@ -210,12 +220,16 @@ export const fetchTransfers = createServerFn({ method: 'POST' })
 		}
 	})
 
-async function fetchTransfersData(
+export async function fetchTransfersData(
 	address: Address.Address,
 	limit: number,
 	offset: number,
 	chainId: number,
 	account?: Address.Address,
+	range?: TimestampRange & {
+		/** Only read the transfers that come after this one, newest first. */
+		before?: TransferKey | undefined
+	},
 ) {
 	let query = QB.withSignatures([TRANSFER_SIGNATURE])
 		.selectFrom('transfer')
@@ -237,6 +251,23 @@ async function fetchTransfersData(
 		)
 	}
 
+	if (range?.since !== undefined)
+		query = query.where('block_timestamp', '>=', range.since)
+	if (range?.until !== undefined)
+		query = query.where('block_timestamp', '<', range.until)
+
+	const before = range?.before
+	if (before)
+		query = query.where((eb) =>
+			eb.or([
+				eb('block_num', '<', before.blockNumber),
+				eb.and([
+					eb('block_num', '=', before.blockNumber),
+					eb('log_idx', '<', before.logIndex),
+				]),
+			]),
+		)
+
 	const result = await query
 		.orderBy('block_num', 'desc')
 		.orderBy('log_idx', 'desc')
@@ -259,6 +290,7 @@ async function fetchTotalCount(
 	address: Address.Address,
 	chainId: number,
 	account?: Address.Address,
+	range?: TimestampRange,
 ) {
 	let query = QB.withSignatures([TRANSFER_SIGNATURE])
 		.selectFrom('transfer')
@@ -272,6 +304,11 @@ async function fetchTotalCount(
 		)
 	}
 
+	if (range?.since !== undefined)
+		query = query.where('block_timestamp', '>=', range.since)
+	if (range?.until !== undefined)
+		query = query.where('block_timestamp', '<', range.until)
+
 	const result = await query.executeTakeFirstOrThrow()
 
 	return Number(result.count)
@@ -20,3 +20,14 @@ export const zHash = () =>
 			return x
 		}),
 	)
+
+/** Unix timestamp (seconds) or ISO 8601 date, parsed to unix seconds. */
+export const zTimestamp = () =>
+	z.pipe(
+		z.string(),
+		z.transform((x) => {
+			const timestamp = /^\d+$/.test(x) ? Number(x) : Date.parse(x) / 1_000
+			if (!Number.isFinite(timestamp)) throw new Error('Invalid timestamp')
+			return Math.floor(timestamp)
+		}),
+	)
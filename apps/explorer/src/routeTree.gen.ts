@@ -13,6 +13,8 @@ import { Route as LayoutRouteImport } from './routes/_layout'
 import { Route as LayoutIndexRouteImport } from './routes/_layout/index'
 import { Route as ApiTunnelRouteImport } from './routes/api/tunnel'
 import { Route as ApiSearchRouteImport } from './routes/api/search'
+import { Route as ApiExportTransfersRouteImport } from './routes/api/export/transfers'
+import { Route as ApiExportTransactionsRouteImport } from './routes/api/export/transactions'
 import { Route as LayoutTokensRouteImport } from './routes/_layout/tokens'
 import { Route as LayoutBlocksRouteImport } from './routes/_layout/blocks'
 import { Route as LayoutDemoIndexRouteImport } from './routes/_layout/demo/index'
@@ -45,6 +47,16 @@ const ApiSearchRoute = ApiSearchRouteImport.update({
   path: '/api/search',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiExportTransfersRoute = ApiExportTransfersRouteImport.update({
+  id: '/api/export/transfers',
+  path: '/api/export/transfers',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiExportTransactionsRoute = ApiExportTransactionsRouteImport.update({
+  id: '/api/export/transactions',
+  path: '/api/export/transactions',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const LayoutTokensRoute = LayoutTokensRouteImport.update({
   id: '/tokens',
   path: '/tokens',
@@ -111,6 +123,8 @@ export interface FileRoutesByFullPath {
   '/tokens': typeof LayoutTokensRoute
   '/api/search': typeof ApiSearchRoute
   '/api/tunnel': typeof ApiTunnelRoute
+  '/api/export/transactions': typeof ApiExportTransactionsRoute
+  '/api/export/transfers': typeof ApiExportTransfersRoute
   '/': typeof LayoutIndexRoute
   '/address/$address': typeof LayoutAddressAddressRoute
   '/block/$id': typeof LayoutBlockIdRoute
@@ -128,6 +142,8 @@ export interface FileRoutesByTo {
   '/tokens': typeof LayoutTokensRoute
   '/api/search': typeof ApiSearchRoute
   '/api/tunnel': typeof ApiTunnelRoute
+  '/api/export/transactions': typeof ApiExportTransactionsRoute
+  '/api/export/transfers': typeof ApiExportTransfersRoute
   '/': typeof LayoutIndexRoute
   '/address/$address': typeof LayoutAddressAddressRoute
   '/block/$id': typeof LayoutBlockIdRoute
@@ -147,6 +163,8 @@ export interface FileRoutesById {
   '/_layout/tokens': typeof LayoutTokensRoute
   '/api/search': typeof ApiSearchRoute
   '/api/tunnel': typeof ApiTunnelRoute
+  '/api/export/transactions': typeof ApiExportTransactionsRoute
+  '/api/export/transfers': typeof ApiExportTransfersRoute
   '/_layout/': typeof LayoutIndexRoute
   '/_layout/address/$address': typeof LayoutAddressAddressRoute
   '/_layout/block/$id': typeof LayoutBlockIdRoute
@@ -166,6 +184,8 @@ export interface FileRouteTypes {
     | '/tokens'
     | '/api/search'
     | '/api/tunnel'
+    | '/api/export/transactions'
+    | '/api/export/transfers'
     | '/'
     | '/address/$address'
     | '/block/$id'
@@ -183,6 +203,8 @@ export interface FileRouteTypes {
     | '/tokens'
     | '/api/search'
     | '/api/tunnel'
+    | '/api/export/transactions'
+    | '/api/export/transfers'
     | '/'
     | '/address/$address'
     | '/block/$id'
@@ -201,6 +223,8 @@ export interface FileRouteTypes {
     | '/_layout/tokens'
     | '/api/search'
     | '/api/tunnel'
+    | '/api/export/transactions'
+    | '/api/export/transfers'
     | '/_layout/'
     | '/_layout/address/$address'
     | '/_layout/block/$id'
@@ -218,6 +242,8 @@ export interface RootRouteChildren {
   LayoutRoute: typeof LayoutRouteWithChildren
   ApiSearchRoute: typeof ApiSearchRoute
   ApiTunnelRoute: typeof ApiTunnelRoute
+  ApiExportTransactionsRoute: typeof ApiExportTransactionsRoute
+  ApiExportTransfersRoute: typeof ApiExportTransfersRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -250,6 +276,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiSearchRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/export/transfers': {
+      id: '/api/export/transfers'
+      path: '/api/export/transfers'
+      fullPath: '/api/export/transfers'
+      preLoaderRoute: typeof ApiExportTransfersRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/export/transactions': {
+      id: '/api/export/transactions'
+      path: '/api/export/transactions'
+      fullPath: '/api/export/transactions'
+      preLoaderRoute: typeof ApiExportTransactionsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/_layout/tokens': {
       id: '/_layout/tokens'
       path: '/tokens'
@@ -376,6 +416,8 @@ const rootRouteChildren: RootRouteChildren = {
   LayoutRoute: LayoutRouteWithChildren,
   ApiSearchRoute: ApiSearchRoute,
   ApiTunnelRoute: ApiTunnelRoute,
+  ApiExportTransactionsRoute: ApiExportTransactionsRoute,
+  ApiExportTransfersRoute: ApiExportTransfersRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
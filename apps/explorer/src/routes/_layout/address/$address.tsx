@@ -11,14 +11,15 @@ import {
 } from '@tanstack/react-router'
 import { Address, Hex } from 'ox'
 import * as React from 'react'
-import { Hooks } from 'tempo.ts/wagmi'
 import { formatUnits, isHash, type RpcTransaction as Transaction } from 'viem'
 import { useBlock } from 'wagmi'
 import { getBlock, getChainId, getTransactionReceipt } from 'wagmi/actions'
 import * as z from 'zod/mini'
 import { AccountCard } from '#comps/AccountCard'
+import { BalanceChart } from '#comps/BalanceChart'
 import { ContractReader } from '#comps/ContractReader'
 import { DataGrid } from '#comps/DataGrid'
+import { ExportLinks } from '#comps/ExportLinks'
 import { NotFound } from '#comps/NotFound'
 import { Sections } from '#comps/Sections'
 import {
@@ -47,16 +48,23 @@ import * as Tip20 from '#lib/domain/tip20'
 import { HexFormatter, PriceFormatter } from '#lib/formatting'
 import { useMediaQuery } from '#lib/hooks'
 import {
+	assetsQueryOptions,
 	type TransactionsData,
+	totalValueQueryOptions,
 	transactionsQueryOptions,
 } from '#lib/queries/account.ts'
 import * as AccountServer from '#lib/server/account.server.ts'
 import { config, getConfig } from '#wagmi.config.ts'
+import ArrowDown from '~icons/lucide/arrow-down'
+import ArrowUp from '~icons/lucide/arrow-up'
 
 const defaultSearchValues = {
 	page: 1,
+	direction: 'next',
 	limit: 10,
 	tab: 'history',
+	sort: 'value',
+	order: 'desc',
 } as const
 
 type TabValue = 'history' | 'assets' | 'contract'
@@ -102,80 +110,17 @@ function useBatchTransactionData(transactions: Transaction[]) {
 	return { transactionDataMap, isLoading }
 }
 
-const assets = [
-	'0x20c0000000000000000000000000000000000000',
-	'0x20c0000000000000000000000000000000000001',
-	'0x20c0000000000000000000000000000000000002',
-	'0x20c0000000000000000000000000000000000003',
-] as const
-
-type AssetData = {
-	address: Address.Address
-	metadata: { name?: string; symbol?: string; decimals?: number } | undefined
-	balance: bigint | undefined
-}
-
-function useAssetsData(accountAddress: Address.Address): AssetData[] {
-	const meta0 = Hooks.token.useGetMetadata({ token: assets[0] })
-	const meta1 = Hooks.token.useGetMetadata({ token: assets[1] })
-	const meta2 = Hooks.token.useGetMetadata({ token: assets[2] })
-	const meta3 = Hooks.token.useGetMetadata({ token: assets[3] })
-
-	const bal0 = Hooks.token.useGetBalance({
-		token: assets[0],
-		account: accountAddress,
-	})
-	const bal1 = Hooks.token.useGetBalance({
-		token: assets[1],
-		account: accountAddress,
-	})
-	const bal2 = Hooks.token.useGetBalance({
-		token: assets[2],
-		account: accountAddress,
-	})
-	const bal3 = Hooks.token.useGetBalance({
-		token: assets[3],
-		account: accountAddress,
-	})
-
-	return React.useMemo(
-		() => [
-			{ address: assets[0], metadata: meta0.data, balance: bal0.data },
-			{ address: assets[1], metadata: meta1.data, balance: bal1.data },
-			{ address: assets[2], metadata: meta2.data, balance: bal2.data },
-			{ address: assets[3], metadata: meta3.data, balance: bal3.data },
-		],
-		[
-			meta0.data,
-			meta1.data,
-			meta2.data,
-			meta3.data,
-			bal0.data,
-			bal1.data,
-			bal2.data,
-			bal3.data,
-		],
-	)
-}
-
-function calculateTotalHoldings(assetsData: AssetData[]): number | undefined {
-	const PRICE_PER_TOKEN = 1
-	let total: number | undefined
-	for (const asset of assetsData) {
-		const decimals = asset.metadata?.decimals
-		const balance = asset.balance
-		if (decimals === undefined || balance === undefined) continue
-		total =
-			(total ?? 0) + Number(formatUnits(balance, decimals)) * PRICE_PER_TOKEN
-	}
-	return total
-}
-
 export const Route = createFileRoute('/_layout/address/$address')({
 	component: RouteComponent,
 	notFoundComponent: NotFound,
 	validateSearch: z.object({
 		page: z.prefault(z.number(), defaultSearchValues.page),
+		// keyset cursor of the history, `page` only numbers its pages
+		cursor: z.optional(z.string()),
+		direction: z.prefault(
+			z.enum(['next', 'prev']),
+			defaultSearchValues.direction,
+		),
 		limit: z.prefault(
 			z.pipe(
 				z.number(),
@@ -187,12 +132,25 @@ export const Route = createFileRoute('/_layout/address/$address')({
 			z.enum(['history', 'assets', 'contract']),
 			defaultSearchValues.tab,
 		),
+		sort: z.prefault(
+			z.enum(AccountServer.ASSETS_SORT_KEYS),
+			defaultSearchValues.sort,
+		),
+		order: z.prefault(z.enum(['asc', 'desc']), defaultSearchValues.order),
 	}),
 	search: {
 		middlewares: [stripSearchParams(defaultSearchValues)],
 	},
-	loaderDeps: ({ search: { page, limit } }) => ({ page, limit }),
-	loader: async ({ deps: { page, limit }, params, context }) => {
+	// the history only follows its cursor while its tab is active
+	loaderDeps: ({ search: { page, cursor, direction, limit, tab } }) =>
+		tab === 'history'
+			? { page, cursor, direction, limit }
+			: { page: 1, cursor: undefined, direction: undefined, limit },
+	loader: async ({
+		deps: { page, cursor, direction, limit },
+		params,
+		context,
+	}) => {
 		const { address } = params
 		// Only throw notFound for truly invalid addresses
 		if (!Address.validate(address))
@@ -201,8 +159,6 @@ export const Route = createFileRoute('/_layout/address/$address')({
 				data: { error: 'Invalid address format' },
 			})
 
-		const offset = (page - 1) * limit
-
 		// check if it's a known contract from our registry
 		let contractInfo: ContractInfo | undefined = getContractInfo(address)
 
@@ -236,9 +192,9 @@ export const Route = createFileRoute('/_layout/address/$address')({
 			.ensureQueryData(
 				transactionsQueryOptions({
 					address,
-					page,
 					limit,
-					offset,
+					cursor,
+					direction,
 				}),
 			)
 			.catch((error) => {
@@ -259,7 +215,6 @@ export const Route = createFileRoute('/_layout/address/$address')({
 			address,
 			page,
 			limit,
-			offset,
 			hasContract,
 			contractInfo,
 			transactionsData,
@@ -273,7 +228,7 @@ function RouteComponent() {
 	const router = useRouter()
 	const location = useLocation()
 	const { address } = Route.useParams()
-	const { page, tab, limit } = Route.useSearch()
+	const { page, cursor, direction, tab, limit, sort, order } = Route.useSearch()
 	const {
 		hasContract,
 		contractInfo,
@@ -313,16 +268,22 @@ function RouteComponent() {
 		}
 	}, [hash, hasContract, tab, navigate, limit])
 
+	const nextCursor = transactionsData?.nextCursor
 	React.useEffect(() => {
 		// Only preload for history tab (transaction pagination)
-		if (tab !== 'history') return
+		if (tab !== 'history' || !nextCursor) return
 		// preload next page only to reduce initial load overhead
 		async function preload() {
 			try {
 				const nextPage = page + 1
 				router.preloadRoute({
 					to: '.',
-					search: { page: nextPage, tab, limit },
+					search: {
+						page: nextPage,
+						cursor: nextCursor ?? undefined,
+						tab,
+						limit,
+					},
 				})
 			} catch (error) {
 				console.error('Preload error (non-blocking):', error)
@@ -330,7 +291,7 @@ function RouteComponent() {
 		}
 
 		preload()
-	}, [page, router, tab, limit])
+	}, [page, nextCursor, router, tab, limit])
 
 	const setActiveSection = React.useCallback(
 		(newIndex: number) => {
@@ -340,18 +301,16 @@ function RouteComponent() {
 			const newTab = tabs[newIndex] ?? 'history'
 			navigate({
 				to: '.',
-				search: { page, tab: newTab, limit },
+				search: { page: 1, tab: newTab, limit },
 				resetScroll: false,
 			})
 		},
-		[navigate, page, limit, hasContract],
+		[navigate, limit, hasContract],
 	)
 
 	const activeSection =
 		tab === 'history' ? 0 : tab === 'assets' ? 1 : hasContract ? 2 : 0
 
-	const assetsData = useAssetsData(address)
-
 	return (
 		<div
 			className={cx(
@@ -359,35 +318,33 @@ function RouteComponent() {
 				'grid w-full pt-20 pb-16 px-4 gap-[14px] min-w-0 grid-cols-[auto_1fr] min-[1240px]:max-w-[1280px]',
 			)}
 		>
-			<AccountCardWithTimestamps address={address} assetsData={assetsData} />
+			<AccountCardWithTimestamps address={address} />
 			<SectionsWrapper
 				address={address}
 				page={page}
+				cursor={cursor}
+				direction={direction}
 				limit={limit}
 				activeSection={activeSection}
 				onSectionChange={setActiveSection}
 				contractInfo={contractInfo}
 				initialData={transactionsData}
 				addressTransactionCount={addressTransactionCount}
-				assetsData={assetsData}
+				sort={sort}
+				order={order}
 			/>
 		</div>
 	)
 }
 
-function AccountCardWithTimestamps(props: {
-	address: Address.Address
-	assetsData: AssetData[]
-}) {
-	const { address, assetsData } = props
+function AccountCardWithTimestamps(props: { address: Address.Address }) {
+	const { address } = props
 
 	// fetch the most recent transactions (pg.1)
 	const { data: recentData } = useQuery(
 		transactionsQueryOptions({
 			address,
-			page: 1,
 			limit: 1,
-			offset: 0,
 			_key: 'account-creation',
 		}),
 	)
@@ -402,21 +359,15 @@ function AccountCardWithTimestamps(props: {
 		},
 	})
 
-	// Use the real transaction count (not the approximate total from pagination)
-	const { data: exactTotal } = useTransactionCount(address)
-	const totalTransactions = Number(exactTotal ?? 0n)
-	const lastPageOffset = Math.max(0, totalTransactions - 1)
-
-	const { data: oldestData } = useQuery({
-		...transactionsQueryOptions({
+	// the last page of one is the oldest transaction
+	const { data: oldestData } = useQuery(
+		transactionsQueryOptions({
 			address,
-			page: Math.ceil(totalTransactions / 1),
 			limit: 1,
-			offset: lastPageOffset,
+			direction: 'prev',
 			_key: 'account-creation',
 		}),
-		enabled: totalTransactions > 0,
-	})
+	)
 
 	const [oldestTransaction] = oldestData?.transactions ?? []
 	const { data: createdTimestamp } = useBlock({
@@ -427,7 +378,7 @@ function AccountCardWithTimestamps(props: {
 		},
 	})
 
-	const totalValue = calculateTotalHoldings(assetsData)
+	const { data: holdings } = useQuery(totalValueQueryOptions({ address }))
 
 	return (
 		<AccountCard
@@ -435,7 +386,8 @@ function AccountCardWithTimestamps(props: {
 			className="self-start"
 			createdTimestamp={createdTimestamp}
 			lastActivityTimestamp={lastActivityTimestamp}
-			totalValue={totalValue}
+			totalValue={holdings?.totalValue}
+			unpricedCurrencies={holdings?.unpricedCurrencies}
 		/>
 	)
 }
@@ -531,66 +483,80 @@ function SectionsSkeleton({ totalItems }: { totalItems: number }) {
 	)
 }
 
-function useTransactionCount(address: Address.Address) {
-	return useQuery({
-		queryKey: ['account-transaction-count', address],
-		queryFn: () =>
-			AccountServer.fetchAddressTransactionsCount({
-				data: { address, chainId: getChainId(config) },
-			}),
-		staleTime: 30_000,
-	})
-}
-
 function SectionsWrapper(props: {
 	address: Address.Address
 	page: number
+	cursor: string | undefined
+	direction: 'next' | 'prev'
 	limit: number
 	activeSection: number
 	onSectionChange: (index: number) => void
 	contractInfo: ContractInfo | undefined
 	initialData: TransactionsData | undefined
 	addressTransactionCount: bigint
-	assetsData: AssetData[]
+	sort: AccountServer.AssetsSortKey
+	order: 'asc' | 'desc'
 }) {
 	const {
 		address,
 		page,
+		cursor,
+		direction,
 		limit,
 		activeSection,
 		onSectionChange,
 		contractInfo,
 		initialData,
 		addressTransactionCount,
-		assetsData,
+		sort,
+		order,
 	} = props
 	const { timeFormat, cycleTimeFormat, formatLabel } = useTimeFormat()
 
 	const isHistoryTabActive = activeSection === 0
-	// Only auto-refresh on page 1 when history tab is active
-	const shouldAutoRefresh = page === 1 && isHistoryTabActive
+	const isAssetsTabActive = activeSection === 1
+	// `page` paginates the active tab, the other one stays on its first page
+	const historyPage = isHistoryTabActive ? page : 1
+	const assetsPage = isAssetsTabActive ? page : 1
+	// Only auto-refresh the first page when history tab is active
+	const shouldAutoRefresh =
+		!cursor && direction === 'next' && isHistoryTabActive
 
 	const { data, isPending, error } = useQuery({
 		...transactionsQueryOptions({
 			address,
-			page,
 			limit,
-			offset: (page - 1) * limit,
+			cursor: isHistoryTabActive ? cursor : undefined,
+			direction: isHistoryTabActive ? direction : undefined,
 		}),
 		initialData,
 		// Override refetch settings reactively based on tab state
 		refetchInterval: shouldAutoRefresh ? 4_000 : false,
 		refetchOnWindowFocus: shouldAutoRefresh,
 	})
-	const { transactions, total: approximateTotal } = data ?? {
-		transactions: [],
-		total: 0,
-	}
+	const { transactions, total, totalIsEstimate, nextCursor, prevCursor } =
+		data ?? {
+			transactions: [],
+			total: 0,
+			totalIsEstimate: false,
+			nextCursor: null,
+			prevCursor: null,
+		}
 
 	const batchTransactionDataContextValue = useBatchTransactionData(transactions)
 
-	const { data: exactTotal } = useTransactionCount(address)
-	const total = exactTotal ?? approximateTotal
+	const {
+		data: assetsData,
+		isPending: isAssetsPending,
+		error: assetsError,
+	} = useQuery({
+		...assetsQueryOptions({ address, page: assetsPage, limit, sort, order }),
+		enabled: isAssetsTabActive,
+	})
+	const { assets, total: totalAssets } = assetsData ?? {
+		assets: [],
+		total: 0,
+	}
 
 	// Use isPending for SSR-consistent loading state
 	const isLoadingPage = isPending
@@ -643,8 +609,11 @@ function SectionsWrapper(props: {
 				sections={[
 					{
 						title: 'History',
-						totalItems: Number(total),
+						totalItems: total,
 						itemsLabel: 'transactions',
+						contextual: (
+							<ExportLinks resource="transactions" address={address} />
+						),
 						content: historyError ?? (
 							<DataGrid
 								columns={{
@@ -681,8 +650,10 @@ function SectionsWrapper(props: {
 										},
 									}))
 								}
-								totalItems={Number(total)}
-								page={page}
+								totalItems={total}
+								approximate={totalIsEstimate}
+								cursors={{ next: nextCursor, prev: prevCursor }}
+								page={historyPage}
 								isPending={isLoadingPage}
 								itemsLabel="transactions"
 								itemsPerPage={limit}
@@ -692,54 +663,110 @@ function SectionsWrapper(props: {
 					},
 					{
 						title: 'Assets',
-						totalItems: assets.length,
+						totalItems: totalAssets,
 						itemsLabel: 'assets',
-						content: (
-							<DataGrid
-								columns={{
-									stacked: [
-										{ label: 'Name', align: 'start', width: '1fr' },
-										{ label: 'Contract', align: 'start', width: '1fr' },
-										{ label: 'Amount', align: 'end', width: '0.5fr' },
-									],
-									tabs: [
-										{ label: 'Name', align: 'start', width: '1fr' },
-										{ label: 'Ticker', align: 'start', width: '0.5fr' },
-										{ label: 'Currency', align: 'start', width: '0.5fr' },
-										{ label: 'Amount', align: 'end', width: '0.5fr' },
-										{ label: 'Value', align: 'end', width: '0.5fr' },
-									],
-								}}
-								items={(mode) =>
-									assetsData.map((asset) => ({
-										className: 'text-[13px]',
-										cells:
-											mode === 'stacked'
-												? [
-														<AssetName key="name" asset={asset} />,
-														<AssetContract key="contract" asset={asset} />,
-														<AssetAmount key="amount" asset={asset} />,
-													]
-												: [
-														<AssetName key="name" asset={asset} />,
-														<AssetSymbol key="symbol" asset={asset} />,
-														<span key="currency">USD</span>,
-														<AssetAmount key="amount" asset={asset} />,
-														<AssetValue key="value" asset={asset} />,
-													],
-										link: {
-											href: `/token/${asset.address}?a=${address}`,
-											title: `View token ${asset.address}`,
-										},
-									}))
-								}
-								totalItems={assets.length}
-								page={1}
-								isPending={false}
-								itemsLabel="assets"
-								itemsPerPage={assets.length}
-								emptyState="No assets found."
-							/>
+						content: assetsError ? (
+							<div className="rounded-[10px] bg-card-header p-[18px]">
+								<p className="text-sm font-medium text-red-400">
+									Failed to load assets
+								</p>
+								<p className="text-xs text-tertiary mt-1">
+									{assetsError instanceof Error
+										? assetsError.message
+										: 'Unknown error'}
+								</p>
+							</div>
+						) : (
+							<>
+								<BalanceChart address={address} />
+								<DataGrid
+									columns={{
+										stacked: [
+											{
+												label: (
+													<AssetsColumnHeader label="Name" sortKey="name" />
+												),
+												align: 'start',
+												width: '1fr',
+											},
+											{ label: 'Contract', align: 'start', width: '1fr' },
+											{
+												label: (
+													<AssetsColumnHeader
+														label="Amount"
+														sortKey="balance"
+													/>
+												),
+												align: 'end',
+												width: '0.5fr',
+											},
+										],
+										tabs: [
+											{
+												label: (
+													<AssetsColumnHeader label="Name" sortKey="name" />
+												),
+												align: 'start',
+												width: '1fr',
+											},
+											{
+												label: (
+													<AssetsColumnHeader label="Ticker" sortKey="symbol" />
+												),
+												align: 'start',
+												width: '0.5fr',
+											},
+											{ label: 'Currency', align: 'start', width: '0.5fr' },
+											{
+												label: (
+													<AssetsColumnHeader
+														label="Amount"
+														sortKey="balance"
+													/>
+												),
+												align: 'end',
+												width: '0.5fr',
+											},
+											{
+												label: (
+													<AssetsColumnHeader label="Value" sortKey="value" />
+												),
+												align: 'end',
+												width: '0.5fr',
+											},
+										],
+									}}
+									items={(mode) =>
+										assets.map((asset) => ({
+											className: 'text-[13px]',
+											cells:
+												mode === 'stacked'
+													? [
+															<span key="name">{asset.name}</span>,
+															<AssetContract key="contract" asset={asset} />,
+															<AssetAmount key="amount" asset={asset} />,
+														]
+													: [
+															<span key="name">{asset.name}</span>,
+															<AssetSymbol key="symbol" asset={asset} />,
+															<span key="currency">{asset.currency}</span>,
+															<AssetAmount key="amount" asset={asset} />,
+															<AssetValue key="value" asset={asset} />,
+														],
+											link: {
+												href: `/token/${asset.address}?a=${address}`,
+												title: `View token ${asset.address}`,
+											},
+										}))
+									}
+									totalItems={totalAssets}
+									page={assetsPage}
+									isPending={isAssetsPending}
+									itemsLabel="assets"
+									itemsPerPage={limit}
+									emptyState="No assets found."
+								/>
+							</>
 						),
 					},
 					// Contract tab - only shown for known contracts
@@ -819,27 +846,58 @@ function TransactionFeeCell(props: { hash: Hex.Hex }) {
 	)
 }
 
-function AssetName(props: { asset: AssetData }) {
-	const { asset } = props
-	if (!asset.metadata?.name) return <span className="text-tertiary">…</span>
-	return <span>{asset.metadata.name}</span>
+function AssetsColumnHeader(props: {
+	label: string
+	sortKey: AccountServer.AssetsSortKey
+}) {
+	const { label, sortKey } = props
+	const { sort, order } = Route.useSearch()
+	const isActive = sort === sortKey
+	// text columns start ascending, amounts start with the largest
+	const initialOrder =
+		sortKey === 'name' || sortKey === 'symbol' ? 'asc' : 'desc'
+	const nextOrder = isActive ? (order === 'asc' ? 'desc' : 'asc') : initialOrder
+	return (
+		<Link
+			to="."
+			resetScroll={false}
+			search={(previous) => ({
+				...previous,
+				page: 1,
+				sort: sortKey,
+				order: nextOrder,
+			})}
+			className={cx(
+				'flex items-center gap-[4px] hover:text-accent transition-colors',
+				isActive ? 'text-secondary' : 'text-tertiary',
+			)}
+			title={`Sort by ${label.toLowerCase()}`}
+		>
+			{label}
+			{isActive &&
+				(order === 'asc' ? (
+					<ArrowUp className="size-[12px]" />
+				) : (
+					<ArrowDown className="size-[12px]" />
+				))}
+		</Link>
+	)
 }
 
-function AssetSymbol(props: { asset: AssetData }) {
+function AssetSymbol(props: { asset: AccountServer.AccountAsset }) {
 	const { asset } = props
-	if (!asset.metadata?.symbol) return <span className="text-tertiary">…</span>
 	return (
 		<Link
 			to="/token/$address"
 			params={{ address: asset.address }}
 			className="text-accent hover:underline press-down"
 		>
-			{asset.metadata.symbol}
+			{asset.symbol}
 		</Link>
 	)
 }
 
-function AssetContract(props: { asset: AssetData }) {
+function AssetContract(props: { asset: AccountServer.AccountAsset }) {
 	return (
 		<span className="text-accent">
 			{HexFormatter.truncate(props.asset.address, 10)}
@@ -847,24 +905,32 @@ function AssetContract(props: { asset: AssetData }) {
 	)
 }
 
-function AssetAmount(props: { asset: AssetData }) {
+function AssetAmount(props: { asset: AccountServer.AccountAsset }) {
 	const { asset } = props
-	if (asset.metadata?.decimals === undefined || asset.balance === undefined)
-		return <span className="text-tertiary">…</span>
-	const formatted = formatUnits(asset.balance, asset.metadata.decimals)
+	const formatted = formatUnits(asset.balance, asset.decimals)
 	return <span>{PriceFormatter.formatAmountShort(formatted)}</span>
 }
 
-function AssetValue(props: { asset: AssetData }) {
+function AssetValue(props: { asset: AccountServer.AccountAsset }) {
 	const { asset } = props
-	if (asset.metadata?.decimals === undefined || asset.balance === undefined)
-		return <span className="text-tertiary">…</span>
+	if (asset.value === null)
+		return (
+			<span
+				className="text-tertiary"
+				title={`No USD price for ${asset.currency} tokens`}
+			>
+				—
+			</span>
+		)
 	return (
-		<span>
-			{PriceFormatter.format(asset.balance, {
-				decimals: asset.metadata.decimals,
-				format: 'short',
-			})}
+		<span
+			title={
+				asset.price.source === 'peg'
+					? `No orders on the exchange, valued at the ${asset.currency} peg`
+					: undefined
+			}
+		>
+			{PriceFormatter.format(asset.value, { format: 'short' })}
 		</span>
 	)
 }
@@ -17,8 +17,10 @@ import { formatUnits } from 'viem'
 import * as z from 'zod/mini'
 import { AddressCell } from '#comps/AddressCell'
 import { AmountCell, BalanceCell } from '#comps/AmountCell'
+import { BalanceChart } from '#comps/BalanceChart'
 import { ContractReader } from '#comps/ContractReader'
 import { DataGrid } from '#comps/DataGrid'
+import { ExportLinks } from '#comps/ExportLinks'
 import { InfoCard } from '#comps/InfoCard'
 import { NotFound } from '#comps/NotFound'
 import { Sections } from '#comps/Sections'
@@ -31,7 +33,11 @@ import { ellipsis } from '#lib/chars'
 import { getContractInfo } from '#lib/domain/contracts'
 import { PriceFormatter } from '#lib/formatting'
 import { useCopy, useMediaQuery } from '#lib/hooks'
-import { holdersQueryOptions, transfersQueryOptions } from '#lib/queries'
+import {
+	holdersQueryOptions,
+	tokenPriceQueryOptions,
+	transfersQueryOptions,
+} from '#lib/queries'
 import { config } from '#wagmi.config'
 import CopyIcon from '~icons/lucide/copy'
 import XIcon from '~icons/lucide/x'
@@ -236,12 +242,18 @@ function TokenCard(props: {
 		holdersQueryOptions({ address, page: 1, limit: 10, offset: 0 }),
 	)
 
+	const { data: price } = useQuery(tokenPriceQueryOptions({ address }))
+
 	const { copy, notifying } = useCopy()
 
 	const totalSupply = holdersSummary?.totalSupply
 		? BigInt(holdersSummary.totalSupply)
 		: undefined
 	const totalHolders = holdersSummary?.total
+	const supplyAmount =
+		totalSupply !== undefined && metadata?.decimals !== undefined
+			? Number(formatUnits(totalSupply, metadata.decimals))
+			: undefined
 
 	return (
 		<InfoCard
@@ -292,14 +304,59 @@ function TokenCard(props: {
 					),
 				},
 				{
-					label: 'Holdings',
+					label: 'Price',
 					value: (
 						<ClientOnly
 							fallback={
 								<span className="text-tertiary text-[13px]">{ellipsis}</span>
 							}
 						>
-							<span className="text-[13px] text-primary">$0.00</span>
+							{price === undefined ? (
+								<span className="text-tertiary text-[13px]">{ellipsis}</span>
+							) : price.price === null ? (
+								<span
+									className="text-tertiary text-[13px]"
+									title={`No USD price for ${price.currency} tokens`}
+								>
+									{price.currency}
+								</span>
+							) : (
+								<span
+									className="text-[13px] text-primary"
+									title={
+										price.source === 'peg'
+											? `No orders on the exchange, valued at the ${price.currency} peg`
+											: 'Mid price on the stablecoin exchange'
+									}
+								>
+									{PriceFormatter.formatUsdPrice(price.price)}
+								</span>
+							)}
+						</ClientOnly>
+					),
+				},
+				{
+					label: 'Market cap',
+					value: (
+						<ClientOnly
+							fallback={
+								<span className="text-tertiary text-[13px]">{ellipsis}</span>
+							}
+						>
+							{supplyAmount !== undefined && price?.price != null ? (
+								<span
+									className="text-[13px] text-primary"
+									title={PriceFormatter.format(supplyAmount * price.price)}
+								>
+									{PriceFormatter.format(supplyAmount * price.price, {
+										format: 'short',
+									})}
+								</span>
+							) : price?.price === null ? (
+								<span className="text-tertiary text-[13px]">—</span>
+							) : (
+								<span className="text-tertiary text-[13px]">{ellipsis}</span>
+							)}
 						</ClientOnly>
 					),
 				},
@@ -311,17 +368,12 @@ function TokenCard(props: {
 								<span className="text-tertiary text-[13px]">{ellipsis}</span>
 							}
 						>
-							{totalSupply !== undefined && metadata?.decimals !== undefined ? (
+							{supplyAmount !== undefined ? (
 								<span
 									className="text-[13px] text-primary"
-									title={PriceFormatter.format(
-										Number(formatUnits(totalSupply, metadata.decimals)),
-									)}
+									title={PriceFormatter.formatAmount(String(supplyAmount))}
 								>
-									{PriceFormatter.format(
-										Number(formatUnits(totalSupply, metadata.decimals)),
-										{ format: 'short' },
-									)}
+									{PriceFormatter.formatAmountShort(String(supplyAmount))}
 								</span>
 							) : (
 								<span className="text-tertiary text-[13px]">{ellipsis}</span>
@@ -550,59 +602,71 @@ function SectionsWrapper(props: {
 					title: 'Transfers',
 					totalItems: transfersTotal,
 					itemsLabel: 'transfers',
-					contextual: account && (
-						<FilterIndicator account={account} tokenAddress={address} />
+					contextual: (
+						<div className="flex items-center gap-[16px]">
+							{account && (
+								<FilterIndicator account={account} tokenAddress={address} />
+							)}
+							<ExportLinks
+								resource="transfers"
+								address={address}
+								account={account}
+							/>
+						</div>
 					),
 					content: (
-						<DataGrid
-							columns={{
-								stacked: transfersColumns,
-								tabs: transfersColumns,
-							}}
-							items={() => {
-								const validTransfers = transfers.filter(
-									(t): t is typeof t & { timestamp: string; value: string } =>
-										t.timestamp !== null && t.value !== null,
-								)
-
-								return validTransfers.map((transfer) => ({
-									cells: [
-										<TimestampCell
-											key="time"
-											timestamp={BigInt(transfer.timestamp)}
-											link={`/receipt/${transfer.transactionHash}`}
-											format={timeFormat}
-										/>,
-										<TransactionCell
-											key="tx"
-											hash={transfer.transactionHash}
-										/>,
-										<AddressCell
-											key="from"
-											address={transfer.from}
-											label="From"
-										/>,
-										<AddressCell key="to" address={transfer.to} label="To" />,
-										<AmountCell
-											key="amount"
-											value={BigInt(transfer.value)}
-											decimals={metadata?.decimals}
-											symbol={metadata?.symbol}
-										/>,
-									],
-									link: {
-										href: `/receipt/${transfer.transactionHash}`,
-										title: `View receipt ${transfer.transactionHash}`,
-									},
-								}))
-							}}
-							totalItems={transfersTotal}
-							page={page}
-							isPending={transfersPending}
-							itemsLabel="transfers"
-							itemsPerPage={limit}
-							emptyState="No transfers found."
-						/>
+						<>
+							{account && <BalanceChart address={account} token={address} />}
+							<DataGrid
+								columns={{
+									stacked: transfersColumns,
+									tabs: transfersColumns,
+								}}
+								items={() => {
+									const validTransfers = transfers.filter(
+										(t): t is typeof t & { timestamp: string; value: string } =>
+											t.timestamp !== null && t.value !== null,
+									)
+
+									return validTransfers.map((transfer) => ({
+										cells: [
+											<TimestampCell
+												key="time"
+												timestamp={BigInt(transfer.timestamp)}
+												link={`/receipt/${transfer.transactionHash}`}
+												format={timeFormat}
+											/>,
+											<TransactionCell
+												key="tx"
+												hash={transfer.transactionHash}
+											/>,
+											<AddressCell
+												key="from"
+												address={transfer.from}
+												label="From"
+											/>,
+											<AddressCell key="to" address={transfer.to} label="To" />,
+											<AmountCell
+												key="amount"
+												value={BigInt(transfer.value)}
+												decimals={metadata?.decimals}
+												symbol={metadata?.symbol}
+											/>,
+										],
+										link: {
+											href: `/receipt/${transfer.transactionHash}`,
+											title: `View receipt ${transfer.transactionHash}`,
+										},
+									}))
+								}}
+								totalItems={transfersTotal}
+								page={page}
+								isPending={transfersPending}
+								itemsLabel="transfers"
+								itemsPerPage={limit}
+								emptyState="No transfers found."
+							/>
+						</>
 					),
 				},
 				{
@@ -0,0 +1,46 @@
+import { createFileRoute } from '@tanstack/react-router'
+import * as z from 'zod/mini'
+import {
+	EXPORT_FORMATS,
+	exportResponse,
+	exportTransactions,
+} from '#lib/server/export.server.ts'
+import { zAddress, zTimestamp } from '#lib/zod'
+
+const ExportTransactionsSearchSchema = z.object({
+	address: zAddress(),
+	format: z.prefault(z.enum(EXPORT_FORMATS), 'csv'),
+	since: zTimestamp(),
+	until: zTimestamp(),
+})
+
+/**
+ * Stream every transaction of an account in a time range as CSV or NDJSON.
+ * e.g. `/api/export/transactions?address=0x…&format=csv&since=2025-01-01&until=2025-02-01`
+ */
+export const Route = createFileRoute('/api/export/transactions')({
+	server: {
+		handlers: {
+			GET: async ({ request }) => {
+				const url = new URL(request.url)
+
+				let params: z.infer<typeof ExportTransactionsSearchSchema>
+				try {
+					params = ExportTransactionsSearchSchema.parse(
+						Object.fromEntries(url.searchParams),
+					)
+				} catch (error) {
+					return new Response(
+						`Invalid parameters: ${error instanceof Error ? error.message : String(error)}`,
+						{ status: 400 },
+					)
+				}
+
+				return exportResponse(exportTransactions(params), {
+					format: params.format,
+					filename: `${params.address}-transactions`,
+				})
+			},
+		},
+	},
+})
@@ -0,0 +1,53 @@
+import { createFileRoute } from '@tanstack/react-router'
+import * as z from 'zod/mini'
+import {
+	EXPORT_FORMATS,
+	exportResponse,
+	exportTransfers,
+} from '#lib/server/export.server.ts'
+import { zAddress, zTimestamp } from '#lib/zod'
+
+const ExportTransfersSearchSchema = z.object({
+	address: zAddress({ lowercase: true }),
+	account: z.optional(zAddress({ lowercase: true })),
+	format: z.prefault(z.enum(EXPORT_FORMATS), 'csv'),
+	since: zTimestamp(),
+	until: zTimestamp(),
+})
+
+/**
+ * Stream every transfer of a token in a time range as CSV or NDJSON,
+ * optionally limited to the transfers of an account.
+ * e.g. `/api/export/transfers?address=0x…&account=0x…&format=ndjson&since=1735689600&until=1738368000`
+ */
+export const Route = createFileRoute('/api/export/transfers')({
+	server: {
+		handlers: {
+			GET: async ({ request }) => {
+				const url = new URL(request.url)
+
+				let params: z.infer<typeof ExportTransfersSearchSchema>
+				try {
+					params = ExportTransfersSearchSchema.parse(
+						Object.fromEntries(url.searchParams),
+					)
+				} catch (error) {
+					return new Response(
+						`Invalid parameters: ${error instanceof Error ? error.message : String(error)}`,
+						{ status: 400 },
+					)
+				}
+
+				return exportResponse(
+					exportTransfers({ ...params, token: params.address }),
+					{
+						format: params.format,
+						filename: params.account
+							? `${params.address}-${params.account}-transfers`
+							: `${params.address}-transfers`,
+					},
+				)
+			},
+		},
+	},
+})
@@ -24,6 +24,9 @@ export const persister = createAsyncStoragePersister({
 	deserialize,
 })
 
+const defaultRpcUrl =
+	import.meta.env.VITE_RPC_URL || 'https://rpc-orchestra.testnet.tempo.xyz'
+
 const chain =
 	import.meta.env.VITE_LOCALNET === 'true'
 		? tempoLocal({ feeToken: 1n })
@@ -40,7 +43,7 @@ export function getConfig(
 		transports: {
 			[tempoTestnet.id]: browser
 				? webSocket('wss://rpc-orchestra.testnet.tempo.xyz')
-				: http(rpcUrl ?? 'https://rpc-orchestra.testnet.tempo.xyz'),
+				: http(rpcUrl ?? defaultRpcUrl),
 			[tempoLocal.id]: http(undefined, {
 				batch: true,
 			}),
@@ -1,65 +1,230 @@
-import { env } from 'cloudflare:workers'
 import { zValidator } from '@hono/zod-validator'
-import { Hono } from 'hono'
+import { type Context, Hono } from 'hono'
 import { cors } from 'hono/cors'
-import { tempo } from 'tempo.ts/chains'
+import type { Address } from 'ox'
 import { Handler } from 'tempo.ts/server'
 import { http } from 'viem'
-import { privateKeyToAccount } from 'viem/accounts'
 import * as z from 'zod'
+import {
+	auditMiddleware,
+	decisions,
+	listSponsorships,
+	zCursor,
+} from './lib/audit.js'
+import { balanceMiddleware, getHealth } from './lib/balance.js'
+import { budgetMiddleware } from './lib/budget.js'
+import { chainMiddleware } from './lib/chains.js'
+import { toCsv } from './lib/csv.js'
+import { feeTokenMiddleware } from './lib/fee-token.js'
+import { policyMiddleware } from './lib/policy.js'
 import { rateLimitMiddleware } from './lib/rate-limit.js'
-import { getUsage } from './lib/usage.js'
+import { replayMiddleware } from './lib/replay.js'
+import { dryRunMiddleware } from './lib/simulate.js'
+import {
+	type AppEnv,
+	isOriginAllowedForAnyTenant,
+	tenantMiddleware,
+} from './lib/tenants.js'
+import { InvalidSponsorRequestError } from './lib/transaction.js'
+import { getUsage, getUsageBreakdown, getUsageSeries } from './lib/usage.js'
+import { zAddress } from './lib/zod.js'
 
-const app = new Hono()
+const app = new Hono<AppEnv>()
+
+app.onError((error, c) => {
+	if (error instanceof InvalidSponsorRequestError)
+		return c.json(error.toResponse(), 400)
+	console.error(error)
+	return c.text('Internal Server Error', 500)
+})
 
 app.use(
 	'*',
 	cors({
 		origin: (origin) => {
-			if (env.ALLOWED_ORIGINS === '*') return '*'
-			if (origin && env.ALLOWED_ORIGINS.includes(origin)) return origin
+			if (origin && isOriginAllowedForAnyTenant(origin)) return origin
 			return null
 		},
 		allowMethods: ['GET', 'POST', 'OPTIONS'],
 		allowHeaders: ['Content-Type', 'Authorization'],
+		exposeHeaders: ['X-Fee-Token'],
 		maxAge: 86400,
 	}),
 )
 
-app.get(
-	'/usage',
+app.use('*', tenantMiddleware)
+
+/** Routes served both at the root and under a `/:chainId` prefix. */
+const api = new Hono<AppEnv>()
+
+api.use('*', chainMiddleware)
+
+const usageQuery = z.object({
+	blockTimestampFrom: z.optional(z.coerce.number()),
+	blockTimestampTo: z.optional(z.coerce.number()),
+	feeToken: z.optional(zAddress()),
+	format: z.prefault(z.enum(['json', 'csv']), 'json'),
+})
+
+const breakdownQuery = usageQuery.extend({
+	limit: z.optional(z.coerce.number().int().positive()),
+})
+
+/**
+ * Usage parameters of the sponsor on the request's chain.
+ * @param c Hono context
+ * @param feeToken Fee token to narrow usage to, defaults to all of the sponsor's fee tokens
+ */
+function usageParameters(
+	c: Context<AppEnv>,
+	feeToken: Address.Address | undefined,
+) {
+	const { chainId, account, feeTokens } = c.get('sponsor')
+	return {
+		chainId,
+		feePayerAddress: account.address,
+		feeTokens: feeToken ? [feeToken] : feeTokens,
+	}
+}
+
+function respond(
+	c: Context<AppEnv>,
+	format: 'json' | 'csv',
+	name: string,
+	data: Record<string, string | number | null>[],
+) {
+	if (format === 'json') return c.json(data)
+	return c.body(toCsv(data), 200, {
+		'Content-Type': 'text/csv; charset=utf-8',
+		'Content-Disposition': `attachment; filename="${name}.csv"`,
+	})
+}
+
+api.get('/usage', zValidator('query', usageQuery), async (c) => {
+	const { format, feeToken, ...query } = c.req.valid('query')
+	const data = await getUsage({
+		...query,
+		...usageParameters(c, feeToken),
+	})
+
+	if (format === 'csv')
+		return respond(
+			c,
+			format,
+			'usage',
+			data.feeTokens.map((row) => ({
+				feePayerAddress: data.feePayerAddress,
+				...row,
+			})),
+		)
+	return c.json(data)
+})
+
+api.get(
+	'/usage/series',
+	zValidator(
+		'query',
+		usageQuery.extend({
+			interval: z.prefault(z.enum(['hour', 'day', 'week']), 'day'),
+		}),
+	),
+	async (c) => {
+		const { format, feeToken, ...query } = c.req.valid('query')
+		const data = await getUsageSeries({
+			...query,
+			...usageParameters(c, feeToken),
+		})
+
+		return respond(c, format, `usage-${query.interval}`, data)
+	},
+)
+
+api.get('/usage/senders', zValidator('query', breakdownQuery), async (c) => {
+	const { format, feeToken, ...query } = c.req.valid('query')
+	const data = await getUsageBreakdown({
+		...query,
+		by: 'sender',
+		...usageParameters(c, feeToken),
+	})
+
+	return respond(c, format, 'usage-senders', data)
+})
+
+api.get('/usage/targets', zValidator('query', breakdownQuery), async (c) => {
+	const { format, feeToken, ...query } = c.req.valid('query')
+	const data = await getUsageBreakdown({
+		...query,
+		by: 'target',
+		...usageParameters(c, feeToken),
+	})
+
+	return respond(c, format, 'usage-targets', data)
+})
+
+api.get(
+	'/sponsorships',
 	zValidator(
 		'query',
 		z.object({
-			blockTimestampFrom: z.optional(z.coerce.number()),
-			blockTimestampTo: z.optional(z.coerce.number()),
+			sender: z.optional(zAddress({ lowercase: true })),
+			from: z.optional(z.coerce.number()),
+			to: z.optional(z.coerce.number()),
+			decision: z.optional(z.enum(decisions)),
+			cursor: z.optional(zCursor),
+			limit: z.prefault(z.coerce.number().int().min(1).max(500), 50),
 		}),
 	),
 	async (c) => {
-		const { blockTimestampFrom, blockTimestampTo } = c.req.valid('query')
-		const account = privateKeyToAccount(
-			env.SPONSOR_PRIVATE_KEY as `0x${string}`,
-		)
-		const data = await getUsage(
-			account.address,
-			blockTimestampFrom,
-			blockTimestampTo,
-		)
+		const query = c.req.valid('query')
+		const data = await listSponsorships({
+			...query,
+			tenant: c.get('tenant').id,
+			chainId: c.get('sponsor').chainId,
+		})
 
 		return c.json(data)
 	},
 )
 
-app.all('*', rateLimitMiddleware, async (c) => {
-	const handler = Handler.feePayer({
-		account: privateKeyToAccount(env.SPONSOR_PRIVATE_KEY as `0x${string}`),
-		chain: tempo({ feeToken: '0x20c0000000000000000000000000000000000001' }),
-		transport: http(env.TEMPO_RPC_URL),
-		async onRequest(request) {
-			console.log(`Sponsoring transaction: ${request.method}`)
-		},
-	})
-	return handler.fetch(c.req.raw)
+api.get('/health', async (c) => {
+	const data = await getHealth(c.get('tenant'), c.get('sponsor'))
+	return c.json(data)
 })
 
+api.all(
+	'*',
+	auditMiddleware,
+	rateLimitMiddleware,
+	feeTokenMiddleware,
+	dryRunMiddleware,
+	replayMiddleware,
+	policyMiddleware,
+	balanceMiddleware,
+	budgetMiddleware,
+	async (c) => {
+		const tenant = c.get('tenant')
+		const sponsor = c.get('sponsor')
+		const handler = Handler.feePayer({
+			account: sponsor.account,
+			chain: sponsor.chain,
+			transport: http(sponsor.rpcUrl),
+			path: c.req.param('chainId') ? `/${c.req.param('chainId')}` : '/',
+			async onRequest(request) {
+				console.log(
+					`Sponsoring transaction for ${tenant.id} on chain ${sponsor.chainId}: ${request.method}`,
+				)
+			},
+		})
+		return handler.fetch(c.req.raw)
+	},
+)
+
+app.route('/:chainId{[0-9]+}', api)
+app.route('/', api)
+
+export { AuditLog } from './lib/audit.js'
+export { BalanceMonitor } from './lib/balance.js'
+export { BudgetLedger } from './lib/budget.js'
+export { ReplayGuard } from './lib/replay.js'
+
 export default app
@@ -0,0 +1,101 @@
+import { env } from 'cloudflare:workers'
+import { describe, expect, it } from 'vitest'
+import * as z from 'zod'
+import { fixture } from '../test/fixture.js'
+import {
+	durableObjectAuditStore,
+	type SponsorshipFilter,
+	type SponsorshipRecord,
+	zCursor,
+} from './audit.js'
+
+const sender = '0x00000000000000000000000000000000000000aa'
+
+const record = fixture<SponsorshipRecord>(() => ({
+	id: crypto.randomUUID(),
+	timestamp: 1_700_000_000,
+	tenant: 'default',
+	chainId: 1,
+	sender,
+	method: 'eth_sendRawTransaction',
+	hash: null,
+	decision: 'sponsored',
+	rule: null,
+	reason: null,
+	estimatedFee: '0.01',
+	actualFee: null,
+}))
+
+const filter: SponsorshipFilter = { tenant: 'default', chainId: 1, limit: 50 }
+
+describe('AuditLog', () => {
+	const store = durableObjectAuditStore(env.AuditLog)
+
+	it('lists records most recent first', async () => {
+		await store.insert(record({ id: 'a', timestamp: 1 }))
+		await store.insert(record({ id: 'c', timestamp: 3 }))
+		await store.insert(record({ id: 'b', timestamp: 2 }))
+
+		const { records, nextCursor } = await store.list(filter)
+		expect(records.map((r) => r.id)).toEqual(['c', 'b', 'a'])
+		expect(nextCursor).toBe(null)
+	})
+
+	it('pages with cursors, breaking timestamp ties by id', async () => {
+		for (const id of ['a', 'b', 'c', 'd', 'e'])
+			await store.insert(record({ id, timestamp: id < 'c' ? 1 : 2 }))
+
+		const ids: string[] = []
+		let cursor: string | null | undefined
+		do {
+			const page = await store.list({
+				...filter,
+				limit: 2,
+				cursor: cursor ? zCursor.parse(cursor) : undefined,
+			})
+			ids.push(...page.records.map((r) => r.id))
+			cursor = page.nextCursor
+		} while (cursor)
+
+		expect(ids).toEqual(['e', 'd', 'c', 'b', 'a'])
+	})
+
+	it('filters records', async () => {
+		await store.insert(record({ id: 'a', timestamp: 1 }))
+		await store.insert(record({ id: 'b', timestamp: 2, decision: 'rejected' }))
+		await store.insert(record({ id: 'c', timestamp: 3, sender: null }))
+		await store.insert(record({ id: 'd', timestamp: 4, tenant: 'other' }))
+		await store.insert(record({ id: 'e', timestamp: 5, chainId: 2 }))
+
+		const list = async (fields: Partial<SponsorshipFilter>) =>
+			(await store.list({ ...filter, ...fields })).records.map((r) => r.id)
+
+		expect(await list({})).toEqual(['c', 'b', 'a'])
+		expect(await list({ sender })).toEqual(['b', 'a'])
+		expect(await list({ decision: 'rejected' })).toEqual(['b'])
+		expect(await list({ from: 2, to: 2 })).toEqual(['b'])
+		expect(await list({ tenant: 'other' })).toEqual(['d'])
+		expect(await list({ chainId: 2 })).toEqual(['e'])
+	})
+
+	it('sets the actual fee of a record', async () => {
+		await store.insert(record({ id: 'a' }))
+		await store.setActualFee('other', 'a', '1')
+		await store.setActualFee('default', 'a', '0.005')
+
+		const { records } = await store.list(filter)
+		expect(records[0]?.actualFee).toBe('0.005')
+	})
+})
+
+describe('zCursor', () => {
+	it('rejects malformed cursors', () => {
+		for (const cursor of [
+			'not base64!',
+			btoa('not json'),
+			btoa('{}'),
+			btoa(JSON.stringify(['1', 'a'])),
+		])
+			expect(() => zCursor.parse(cursor)).toThrow(z.ZodError)
+	})
+})
@@ -0,0 +1,319 @@
+import { DurableObject, env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import { type Address, type Hex, RpcResponse } from 'ox'
+import { formatUnits } from 'viem'
+import * as z from 'zod'
+import { estimateFee } from './budget.js'
+import { feeTokenDecimals } from './consts.js'
+import { getSponsorshipResult } from './receipt.js'
+import { isDryRun } from './simulate.js'
+import type { AppEnv } from './tenants.js'
+import { getTransaction } from './transaction.js'
+
+export const decisions = ['sponsored', 'rejected', 'failed'] as const
+export type Decision = (typeof decisions)[number]
+
+export type SponsorshipRecord = {
+	id: string
+	/** Time of the request, in epoch seconds. */
+	timestamp: number
+	tenant: string
+	chainId: number
+	sender: Address.Address | null
+	method: string
+	hash: Hex.Hex | null
+	decision: Decision
+	/** Rule that rejected the request, e.g. `targets.allow`, `budget.perSender`, `balance`, `feeToken` or `rateLimit`. */
+	rule: string | null
+	/** Error message for rejected or failed requests. */
+	reason: string | null
+	/** Maximum fee from the gas limit, in fee token units. */
+	estimatedFee: string | null
+	/** Fee paid once the transaction is included, in fee token units. */
+	actualFee: string | null
+}
+
+export type SponsorshipFilter = {
+	tenant: string
+	chainId: number
+	sender?: Address.Address | undefined
+	/** Start time in epoch seconds (inclusive). */
+	from?: number | undefined
+	/** End time in epoch seconds (inclusive). */
+	to?: number | undefined
+	decision?: Decision | undefined
+	/** Cursor returned by a previous page, decoded with {@link zCursor}. */
+	cursor?: Cursor | undefined
+	limit: number
+}
+
+/**
+ * Storage for the sponsorship audit log.
+ */
+export type AuditStore = {
+	/** Append a record. */
+	insert: (record: SponsorshipRecord) => Promise<void>
+	/** Set the actual fee of a record once the transaction is included. */
+	setActualFee: (tenant: string, id: string, actualFee: string) => Promise<void>
+	/** List records, most recent first. */
+	list: (filter: SponsorshipFilter) => Promise<{
+		records: SponsorshipRecord[]
+		nextCursor: string | null
+	}>
+}
+
+export type Cursor = { timestamp: number; id: string }
+
+const encodeCursor = ({ timestamp, id }: Cursor) =>
+	btoa(JSON.stringify([timestamp, id]))
+
+const CursorTuple = z.tuple([z.number(), z.string()])
+
+/** Decodes a cursor returned by a previous page. */
+export const zCursor = z.pipe(
+	z.string(),
+	z.transform((value, ctx): Cursor => {
+		try {
+			const [timestamp, id] = CursorTuple.parse(JSON.parse(atob(value)))
+			return { timestamp, id }
+		} catch {
+			ctx.issues.push({
+				code: 'custom',
+				message: 'Invalid cursor',
+				input: value,
+			})
+			return z.NEVER
+		}
+	}),
+)
+
+function page(records: SponsorshipRecord[], limit: number) {
+	const hasMore = records.length > limit
+	const items = records.slice(0, limit)
+	const last = items.at(-1)
+	return {
+		records: items,
+		nextCursor: hasMore && last ? encodeCursor(last) : null,
+	}
+}
+
+/**
+ * Audit store backed by one SQLite {@link AuditLog} Durable Object per tenant.
+ * @param namespace Durable Object namespace binding
+ */
+export function durableObjectAuditStore(
+	namespace: DurableObjectNamespace<AuditLog>,
+): AuditStore {
+	return {
+		insert: (record) => namespace.getByName(record.tenant).insert(record),
+		setActualFee: (tenant, id, actualFee) =>
+			namespace.getByName(tenant).setActualFee(id, actualFee),
+		list: (filter) => namespace.getByName(filter.tenant).list(filter),
+	}
+}
+
+type Row = {
+	id: string
+	timestamp: number
+	tenant: string
+	chain_id: number
+	sender: string | null
+	method: string
+	hash: string | null
+	decision: string
+	rule: string | null
+	reason: string | null
+	estimated_fee: string | null
+	actual_fee: string | null
+}
+
+const fromRow = (row: Row): SponsorshipRecord => ({
+	id: row.id,
+	timestamp: row.timestamp,
+	tenant: row.tenant,
+	chainId: row.chain_id,
+	sender: row.sender as Address.Address | null,
+	method: row.method,
+	hash: row.hash as Hex.Hex | null,
+	decision: row.decision as Decision,
+	rule: row.rule,
+	reason: row.reason,
+	estimatedFee: row.estimated_fee,
+	actualFee: row.actual_fee,
+})
+
+/**
+ * Durable Object storing a tenant's sponsorship audit log in SQLite.
+ */
+export class AuditLog extends DurableObject<Env> {
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env)
+		this.ctx.storage.sql.exec(`
+			CREATE TABLE IF NOT EXISTS sponsorships (
+				id TEXT PRIMARY KEY,
+				timestamp INTEGER NOT NULL,
+				tenant TEXT NOT NULL,
+				chain_id INTEGER NOT NULL,
+				sender TEXT,
+				method TEXT NOT NULL,
+				hash TEXT,
+				decision TEXT NOT NULL,
+				rule TEXT,
+				reason TEXT,
+				estimated_fee TEXT,
+				actual_fee TEXT
+			);
+			CREATE INDEX IF NOT EXISTS sponsorships_timestamp ON sponsorships (timestamp DESC, id DESC);
+			CREATE INDEX IF NOT EXISTS sponsorships_sender ON sponsorships (sender, timestamp DESC);
+		`)
+	}
+
+	async insert(record: SponsorshipRecord) {
+		this.ctx.storage.sql.exec(
+			'INSERT INTO sponsorships (id, timestamp, tenant, chain_id, sender, method, hash, decision, rule, reason, estimated_fee, actual_fee) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+			record.id,
+			record.timestamp,
+			record.tenant,
+			record.chainId,
+			record.sender,
+			record.method,
+			record.hash,
+			record.decision,
+			record.rule,
+			record.reason,
+			record.estimatedFee,
+			record.actualFee,
+		)
+	}
+
+	async setActualFee(id: string, actualFee: string) {
+		this.ctx.storage.sql.exec(
+			'UPDATE sponsorships SET actual_fee = ? WHERE id = ?',
+			actualFee,
+			id,
+		)
+	}
+
+	async list(filter: SponsorshipFilter) {
+		const conditions: string[] = ['chain_id = ?']
+		const bindings: (string | number)[] = [filter.chainId]
+
+		if (filter.sender) {
+			conditions.push('sender = ?')
+			bindings.push(filter.sender.toLowerCase())
+		}
+		if (filter.from !== undefined) {
+			conditions.push('timestamp >= ?')
+			bindings.push(filter.from)
+		}
+		if (filter.to !== undefined) {
+			conditions.push('timestamp <= ?')
+			bindings.push(filter.to)
+		}
+		if (filter.decision) {
+			conditions.push('decision = ?')
+			bindings.push(filter.decision)
+		}
+		if (filter.cursor) {
+			const { timestamp, id } = filter.cursor
+			conditions.push('(timestamp < ? OR (timestamp = ? AND id < ?))')
+			bindings.push(timestamp, timestamp, id)
+		}
+
+		const rows = this.ctx.storage.sql
+			.exec<Row>(
+				`SELECT * FROM sponsorships WHERE ${conditions.join(' AND ')} ORDER BY timestamp DESC, id DESC LIMIT ?`,
+				...bindings,
+				filter.limit + 1,
+			)
+			.toArray()
+
+		return page(rows.map(fromRow), filter.limit)
+	}
+}
+
+const store = durableObjectAuditStore(env.AuditLog)
+
+/**
+ * List sponsorship records of a tenant on a chain, most recent first.
+ * @param filter Filter and pagination parameters
+ * @returns A page of records and the cursor of the next page
+ */
+export function listSponsorships(filter: SponsorshipFilter) {
+	return store.list(filter)
+}
+
+/**
+ * Get the decision and rule of a request from the JSON-RPC error returned to the client.
+ * @param error JSON-RPC error object
+ */
+function getRejection(error: RpcResponse.ErrorObject) {
+	const data = (error.data ?? {}) as { rule?: string; budget?: string }
+	const isRejection =
+		error.code === RpcResponse.TransactionRejectedError.code ||
+		error.code === RpcResponse.InvalidParamsError.code ||
+		error.code === RpcResponse.LimitExceededError.code
+	if (isRejection && data.rule)
+		return { decision: 'rejected', rule: data.rule } as const
+	if (isRejection && data.budget)
+		return { decision: 'rejected', rule: `budget.${data.budget}` } as const
+	if (error.code === RpcResponse.ResourceUnavailableError.code)
+		return { decision: 'rejected', rule: 'balance' } as const
+	return { decision: 'failed', rule: null } as const
+}
+
+/**
+ * Middleware that records every sponsorship request and its outcome in the
+ * audit log, including rate limited ones. Dry runs are not recorded.
+ */
+export async function auditMiddleware(c: Context<AppEnv>, next: Next) {
+	if (isDryRun(c)) return next()
+
+	const timestamp = Math.floor(Date.now() / 1000)
+	const { request, transaction } = await getTransaction(c)
+
+	await next()
+
+	const tenant = c.get('tenant')
+	const { response, hash, fee } = await getSponsorshipResult(c, request)
+	const { decision, rule } =
+		c.res.status === 429
+			? ({ decision: 'rejected', rule: 'rateLimit' } as const)
+			: response?.error
+				? getRejection(response.error)
+				: response
+					? ({ decision: 'sponsored', rule: null } as const)
+					: ({ decision: 'failed', rule: null } as const)
+
+	const record: SponsorshipRecord = {
+		id: crypto.randomUUID(),
+		timestamp,
+		tenant: tenant.id,
+		chainId: c.get('sponsor').chainId,
+		sender: transaction.from
+			? (transaction.from.toLowerCase() as Address.Address)
+			: null,
+		method: request.method,
+		hash: hash ?? null,
+		decision,
+		rule,
+		reason: response?.error?.message ?? null,
+		estimatedFee: formatUnits(estimateFee(transaction), feeTokenDecimals),
+		actualFee: null,
+	}
+
+	c.executionCtx.waitUntil(
+		(async () => {
+			await store.insert(record)
+			const actual = await fee
+			if (actual !== undefined)
+				await store.setActualFee(
+					tenant.id,
+					record.id,
+					formatUnits(actual, feeTokenDecimals),
+				)
+		})().catch((error) =>
+			console.error('Failed to write sponsorship audit log', error),
+		),
+	)
+}
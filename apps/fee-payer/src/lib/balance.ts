@@ -0,0 +1,242 @@
+import { DurableObject, env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import { RpcResponse } from 'ox'
+import { Actions } from 'tempo.ts/viem'
+import { formatUnits } from 'viem'
+import * as z from 'zod'
+import type { Sponsor } from './chains.js'
+import { feeTokenDecimals } from './consts.js'
+import { rpcError } from './rpc.js'
+import type { AppEnv, Tenant } from './tenants.js'
+import { getTransaction } from './transaction.js'
+import { getUsage } from './usage.js'
+import { zAmount } from './zod.js'
+
+/** How long a fetched sponsor balance is reused before being refetched. */
+const BALANCE_TTL = 30_000
+
+/** Window used to compute the burn rate for runway estimates. */
+const BURN_RATE_WINDOW = 24 * 60 * 60
+
+export const priorities = ['low', 'normal', 'high'] as const
+export type Priority = (typeof priorities)[number]
+
+/**
+ * Sponsor balance thresholds, denominated in fee token units.
+ * Below a priority's threshold, tenants with that priority or lower stop being sponsored.
+ */
+export const BalanceConfig = z.object({
+	/** Minimum balance per tenant priority. */
+	thresholds: z.prefault(
+		z.object({
+			low: z.optional(zAmount(feeTokenDecimals)),
+			normal: z.optional(zAmount(feeTokenDecimals)),
+			high: z.optional(zAmount(feeTokenDecimals)),
+		}),
+		{},
+	),
+	/** URL notified with a JSON `POST` when the sponsor balance crosses a threshold. */
+	webhookUrl: z.optional(z.url()),
+})
+export type BalanceConfig = z.output<typeof BalanceConfig>
+
+/**
+ * Parse a JSON-encoded balance configuration.
+ * @param value JSON string, usually from the `SPONSOR_BALANCE` variable
+ * @returns The parsed configuration
+ */
+export function parseBalanceConfig(value: string | undefined) {
+	return BalanceConfig.parse(value ? JSON.parse(value) : {})
+}
+
+const config = parseBalanceConfig(env.SPONSOR_BALANCE)
+
+/**
+ * Status of a sponsor account: `ok` when no priority is paused, otherwise the
+ * highest priority whose threshold the balance is below.
+ */
+export type BalanceStatus = 'ok' | Priority
+
+/**
+ * Get the status of a sponsor balance.
+ * @param balance Sponsor balance in fee token units
+ * @returns The balance status
+ */
+export function getBalanceStatus(balance: bigint): BalanceStatus {
+	let status: BalanceStatus = 'ok'
+	for (const priority of priorities) {
+		const threshold = config.thresholds[priority]
+		if (threshold !== undefined && balance < threshold) status = priority
+	}
+	return status
+}
+
+/**
+ * Check whether tenants of a given priority are paused at a balance status.
+ * @param status Balance status
+ * @param priority Tenant priority
+ */
+export function isPaused(status: BalanceStatus, priority: Priority) {
+	if (status === 'ok') return false
+	return priorities.indexOf(priority) <= priorities.indexOf(status)
+}
+
+const balances = new Map<string, { balance: bigint; fetchedAt: number }>()
+
+const balanceKey = (sponsor: Sponsor) =>
+	`${sponsor.chainId}:${sponsor.account.address}:${sponsor.feeToken}`.toLowerCase()
+
+/**
+ * Get the fee token balance of a sponsor account.
+ * Balances are cached for a short time to avoid a read on every request.
+ * @param sponsor Sponsor to get the balance of
+ * @returns Sponsor balance in fee token units
+ */
+export async function getSponsorBalance(sponsor: Sponsor) {
+	const key = balanceKey(sponsor)
+	const cached = balances.get(key)
+	if (cached && Date.now() - cached.fetchedAt < BALANCE_TTL)
+		return cached.balance
+
+	const balance = await Actions.token.getBalance(sponsor.client, {
+		account: sponsor.account.address,
+		token: sponsor.feeToken,
+	})
+	balances.set(key, { balance, fetchedAt: Date.now() })
+	return balance
+}
+
+/**
+ * Durable Object remembering the last balance status of a sponsor account,
+ * so threshold crossings are notified once.
+ */
+export class BalanceMonitor extends DurableObject<Env> {
+	/**
+	 * Record the current status.
+	 * @returns The previously recorded status
+	 */
+	async transition(status: BalanceStatus) {
+		const previous =
+			(await this.ctx.storage.get<BalanceStatus>('status')) ?? 'ok'
+		if (previous !== status) await this.ctx.storage.put('status', status)
+		return previous
+	}
+}
+
+const statuses = new Map<string, BalanceStatus>()
+
+/**
+ * Record the balance status of a tenant's sponsor account and notify the
+ * webhook if a threshold was crossed.
+ * @param tenant Tenant the balance belongs to
+ * @param sponsor Sponsor account the balance belongs to
+ * @param balance Sponsor balance in fee token units
+ */
+export async function notifyBalance(
+	tenant: Tenant,
+	sponsor: Sponsor,
+	balance: bigint,
+) {
+	if (!config.webhookUrl) return
+
+	const key = balanceKey(sponsor)
+	const status = getBalanceStatus(balance)
+	// Skip the Durable Object round trip if this isolate already saw the status.
+	if (statuses.get(key) === status) return
+	statuses.set(key, status)
+
+	const previousStatus =
+		await env.BalanceMonitor.getByName(key).transition(status)
+	if (previousStatus === status) return
+
+	const response = await fetch(config.webhookUrl, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			event: 'sponsor.balance',
+			tenant: tenant.id,
+			chainId: sponsor.chainId,
+			sponsor: sponsor.account.address,
+			feeToken: sponsor.feeToken,
+			balance: formatUnits(balance, feeTokenDecimals),
+			previousStatus,
+			status,
+		}),
+	})
+	if (!response.ok)
+		console.error(`Balance webhook failed with status ${response.status}`)
+}
+
+/**
+ * Get the health of a tenant's sponsor account.
+ * @param tenant Tenant to report on
+ * @param sponsor Tenant's sponsor on the selected chain
+ * @returns Sponsor balance, nonce, burn rate and estimated runway
+ */
+export async function getHealth(tenant: Tenant, sponsor: Sponsor) {
+	const now = Math.floor(Date.now() / 1000)
+	const [balance, nonce, usage] = await Promise.all([
+		getSponsorBalance(sponsor),
+		sponsor.client.getTransactionCount({ address: sponsor.account.address }),
+		getUsage({
+			chainId: sponsor.chainId,
+			feePayerAddress: sponsor.account.address,
+			// fees may be paid in any of the sponsor's fee tokens
+			feeTokens: sponsor.feeTokens,
+			blockTimestampFrom: now - BURN_RATE_WINDOW,
+			blockTimestampTo: now,
+		}),
+	])
+
+	const burnRate = Number(usage.feesPaid)
+	const runway =
+		burnRate > 0
+			? Math.floor(
+					(Number(formatUnits(balance, feeTokenDecimals)) / burnRate) *
+						BURN_RATE_WINDOW,
+				)
+			: null
+	const status = getBalanceStatus(balance)
+
+	return {
+		tenant: tenant.id,
+		chainId: sponsor.chainId,
+		sponsor: sponsor.account.address,
+		feeToken: sponsor.feeToken,
+		balance: formatUnits(balance, feeTokenDecimals),
+		nonce,
+		burnRatePerDay: usage.feesPaid,
+		runwaySeconds: runway,
+		status,
+		paused: isPaused(status, tenant.priority),
+	}
+}
+
+/**
+ * Middleware that stops sponsoring for a tenant when its sponsor balance is
+ * below the threshold for the tenant's priority.
+ * Returns a JSON-RPC error if the tenant is paused.
+ */
+export async function balanceMiddleware(c: Context<AppEnv>, next: Next) {
+	const tenant = c.get('tenant')
+	const sponsor = c.get('sponsor')
+
+	const balance = await getSponsorBalance(sponsor)
+	c.executionCtx.waitUntil(
+		notifyBalance(tenant, sponsor, balance).catch((error) =>
+			console.error('Failed to notify balance', error),
+		),
+	)
+
+	if (!isPaused(getBalanceStatus(balance), tenant.priority)) return next()
+
+	const { request } = await getTransaction(c)
+	return rpcError(
+		c,
+		request,
+		new RpcResponse.ResourceUnavailableError({
+			message: 'Sponsorship paused: sponsor balance is low',
+			data: { balance: formatUnits(balance, feeTokenDecimals) },
+		}),
+	)
+}
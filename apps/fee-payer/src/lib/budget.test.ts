@@ -0,0 +1,141 @@
+import { env } from 'cloudflare:workers'
+import { describe, expect, it } from 'vitest'
+import { fixture } from '../test/fixture.js'
+import {
+	type Budget,
+	checkBudget,
+	durableObjectBudgetStore,
+	estimateFee,
+} from './budget.js'
+import type { Sponsor } from './chains.js'
+import type { Tenant } from './tenants.js'
+import type { SponsorTransaction } from './transaction.js'
+
+const limits = { global: 100n, sender: 40n }
+
+const transaction = fixture<SponsorTransaction>(() => ({
+	chainId: 1,
+	calls: [],
+}))
+
+describe('BudgetLedger', () => {
+	const store = durableObjectBudgetStore(env.BudgetLedger)
+
+	it('reserves until a limit is exceeded', async () => {
+		expect(await store.reserve({ amount: 30n, limits, window: 1 })).toBe(
+			undefined,
+		)
+		expect(await store.reserve({ amount: 20n, limits, window: 1 })).toBe(
+			'sender',
+		)
+		expect(await store.reserve({ amount: 10n, limits, window: 1 })).toBe(
+			undefined,
+		)
+		expect(await store.check({ amount: 1n, limits, window: 1 })).toBe('sender')
+	})
+
+	it('does not reserve on a failed reservation', async () => {
+		await store.reserve({ amount: 50n, limits: { global: 100n }, window: 1 })
+		expect(await store.reserve({ amount: 60n, limits, window: 1 })).toBe(
+			'global',
+		)
+		// `sender` fit, but must not have been reserved.
+		expect(await store.check({ amount: 40n, limits, window: 1 })).toBe(
+			undefined,
+		)
+	})
+
+	it('checks without reserving', async () => {
+		expect(await store.check({ amount: 40n, limits, window: 1 })).toBe(
+			undefined,
+		)
+		expect(await store.reserve({ amount: 40n, limits, window: 1 })).toBe(
+			undefined,
+		)
+	})
+
+	it('resets when the window rolls over', async () => {
+		await store.reserve({ amount: 40n, limits, window: 1 })
+		expect(await store.reserve({ amount: 40n, limits, window: 2 })).toBe(
+			undefined,
+		)
+	})
+
+	it('refunds a released reservation', async () => {
+		await store.reserve({ amount: 40n, limits, window: 1 })
+		await store.adjust({ amount: -40n, keys: ['global', 'sender'], window: 1 })
+		expect(await store.reserve({ amount: 40n, limits, window: 1 })).toBe(
+			undefined,
+		)
+	})
+
+	it('reconciles a reservation against the actual fee', async () => {
+		await store.reserve({ amount: 40n, limits, window: 1 })
+		// The transaction only spent 15 of the 40 reserved.
+		await store.adjust({
+			amount: 15n - 40n,
+			keys: ['global', 'sender'],
+			window: 1,
+		})
+		expect(await store.check({ amount: 25n, limits, window: 1 })).toBe(
+			undefined,
+		)
+		expect(await store.check({ amount: 26n, limits, window: 1 })).toBe('sender')
+	})
+
+	it('never refunds below zero', async () => {
+		await store.reserve({ amount: 10n, limits, window: 1 })
+		await store.adjust({ amount: -50n, keys: ['sender'], window: 1 })
+		expect(await store.check({ amount: 41n, limits, window: 1 })).toBe('sender')
+	})
+
+	it('ignores adjustments from a previous window', async () => {
+		await store.reserve({ amount: 40n, limits, window: 1 })
+		await store.reserve({ amount: 40n, limits, window: 2 })
+		await store.adjust({ amount: -40n, keys: ['sender'], window: 1 })
+		expect(await store.check({ amount: 1n, limits, window: 2 })).toBe('sender')
+	})
+})
+
+describe('estimateFee', () => {
+	it('converts the maximum fee to fee token units, rounding up', () => {
+		expect(
+			estimateFee(transaction({ gas: 21_000n, maxFeePerGas: 10n ** 12n })),
+		).toBe(21_000n)
+		expect(estimateFee(transaction({ gas: 1n, maxFeePerGas: 1n }))).toBe(1n)
+	})
+})
+
+describe('checkBudget', () => {
+	const tenant = {
+		id: 'test',
+		budget: { period: 'day', global: 30_000n } satisfies Budget,
+	} as Tenant
+	const sponsor = { chainId: 1 } as Sponsor
+
+	it('reserves the maximum fee against the budget', async () => {
+		const priced = transaction({ gas: 20_000n, maxFeePerGas: 10n ** 12n })
+
+		const first = await checkBudget(tenant, sponsor, priced, { reserve: true })
+		expect(first.violation).toBe(undefined)
+		expect(first.amount).toBe(20_000n)
+		expect(first.keys).toEqual(['test:1:global'])
+
+		const second = await checkBudget(tenant, sponsor, priced, {
+			reserve: false,
+		})
+		expect(second.violation?.budget).toBe('global')
+	})
+
+	it('rejects transactions without a gas limit or max fee per gas', async () => {
+		for (const fields of [{ maxFeePerGas: 1n }, { gas: 21_000n }, {}]) {
+			const { violation } = await checkBudget(
+				tenant,
+				sponsor,
+				transaction(fields),
+				{ reserve: true },
+			)
+			expect(violation?.budget).toBe('unpriced')
+		}
+	})
+})
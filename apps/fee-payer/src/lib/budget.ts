@@ -0,0 +1,298 @@
+import { DurableObject, env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import { RpcResponse } from 'ox'
+import { formatUnits } from 'viem'
+import * as z from 'zod'
+import type { Sponsor } from './chains.js'
+import { feeTokenDecimals } from './consts.js'
+import { getSponsorshipResult } from './receipt.js'
+import { rpcError } from './rpc.js'
+import type { AppEnv, Tenant } from './tenants.js'
+import { getTransaction, type SponsorTransaction } from './transaction.js'
+import { zAmount } from './zod.js'
+
+/** Gas prices carry 18 decimals, fee tokens carry 6. */
+const GAS_PRICE_SCALE = 10n ** BigInt(18 - feeTokenDecimals)
+
+const PERIODS = {
+	hour: 60 * 60,
+	day: 24 * 60 * 60,
+	week: 7 * 24 * 60 * 60,
+} as const
+
+/**
+ * Spend budget, denominated in fee token units (e.g. `"5"` for 5 AlphaUSD).
+ */
+export const Budget = z.object({
+	/** Period after which budgets reset. */
+	period: z.prefault(z.enum(['hour', 'day', 'week']), 'day'),
+	/** Maximum spend per sender per period. */
+	perSender: z.optional(zAmount(feeTokenDecimals)),
+	/** Maximum spend across all senders per period. */
+	global: z.optional(zAmount(feeTokenDecimals)),
+})
+export type Budget = z.output<typeof Budget>
+
+/**
+ * Parse a JSON-encoded budget.
+ * @param value JSON string, usually from the `SPONSOR_BUDGET` variable
+ * @returns The parsed budget, or `undefined` if no budget is configured
+ */
+export function parseBudget(value: string | undefined) {
+	if (!value) return undefined
+	return Budget.parse(JSON.parse(value))
+}
+
+type Entry = { window: number; spent: bigint }
+
+export type ReserveParameters = {
+	/** Amount to reserve, in fee token units. */
+	amount: bigint
+	/** Limit for each budget key. */
+	limits: Record<string, bigint>
+	/** Current budget window. */
+	window: number
+}
+
+export type AdjustParameters = {
+	/** Amount to add to each key. Negative to refund. */
+	amount: bigint
+	/** Budget keys to adjust. */
+	keys: readonly string[]
+	/** Budget window the amount was reserved in. */
+	window: number
+}
+
+/**
+ * Storage for spend budgets.
+ */
+export type BudgetStore = {
+	/**
+	 * Atomically reserve an amount against every key, unless one of them would exceed its limit.
+	 * @returns The first key that would exceed its limit, or `undefined` if the amount was reserved
+	 */
+	reserve: (parameters: ReserveParameters) => Promise<string | undefined>
+	/**
+	 * Check whether an amount could be reserved, without reserving it.
+	 * @returns The first key that would exceed its limit, or `undefined` if the amount fits
+	 */
+	check: (parameters: ReserveParameters) => Promise<string | undefined>
+	/** Adjust a previous reservation once the actual fee is known. */
+	adjust: (parameters: AdjustParameters) => Promise<void>
+}
+
+function reserveEntries(
+	entries: Map<string, Entry>,
+	{ amount, limits, window }: ReserveParameters,
+) {
+	const next = new Map<string, Entry>()
+	for (const [key, limit] of Object.entries(limits)) {
+		const entry = entries.get(key)
+		const spent = entry?.window === window ? entry.spent : 0n
+		if (spent + amount > limit) return { exceeded: key }
+		next.set(key, { window, spent: spent + amount })
+	}
+	return { entries: next }
+}
+
+function adjustEntries(
+	entries: Map<string, Entry>,
+	{ amount, keys, window }: AdjustParameters,
+) {
+	const next = new Map<string, Entry>()
+	for (const key of keys) {
+		const entry = entries.get(key)
+		// The window rolled over since the reservation, nothing left to adjust.
+		if (entry?.window !== window) continue
+		const spent = entry.spent + amount
+		next.set(key, { window, spent: spent > 0n ? spent : 0n })
+	}
+	return next
+}
+
+/**
+ * Budget store backed by a single {@link BudgetLedger} Durable Object.
+ * @param namespace Durable Object namespace binding
+ */
+export function durableObjectBudgetStore(
+	namespace: DurableObjectNamespace<BudgetLedger>,
+): BudgetStore {
+	const ledger = () => namespace.getByName('budget')
+	return {
+		reserve: (parameters) => ledger().reserve(parameters),
+		check: (parameters) => ledger().check(parameters),
+		adjust: (parameters) => ledger().adjust(parameters),
+	}
+}
+
+/**
+ * Durable Object holding spend per budget key.
+ * Requests are processed one at a time, so reservations are atomic.
+ */
+export class BudgetLedger extends DurableObject<Env> {
+	async reserve(parameters: ReserveParameters) {
+		const keys = Object.keys(parameters.limits)
+		const entries = await this.ctx.storage.get<Entry>(keys)
+		const result = reserveEntries(entries, parameters)
+		if ('exceeded' in result) return result.exceeded
+		await this.ctx.storage.put(Object.fromEntries(result.entries))
+		return undefined
+	}
+
+	async check(parameters: ReserveParameters) {
+		const keys = Object.keys(parameters.limits)
+		const entries = await this.ctx.storage.get<Entry>(keys)
+		const result = reserveEntries(entries, parameters)
+		return 'exceeded' in result ? result.exceeded : undefined
+	}
+
+	async adjust(parameters: AdjustParameters) {
+		const entries = await this.ctx.storage.get<Entry>([...parameters.keys])
+		const next = adjustEntries(entries, parameters)
+		if (next.size > 0) await this.ctx.storage.put(Object.fromEntries(next))
+	}
+}
+
+/**
+ * Estimate the maximum fee of a transaction from its gas limit and max fee per gas.
+ * @param transaction Transaction to sponsor
+ * @returns Maximum fee in fee token units
+ */
+export function estimateFee(transaction: SponsorTransaction) {
+	const gas = transaction.gas ?? 0n
+	const maxFeePerGas = transaction.maxFeePerGas ?? 0n
+	return toFeeTokenUnits(gas * maxFeePerGas)
+}
+
+/**
+ * Convert a fee in gas price units to fee token units, rounding up.
+ * @param fee Fee as `gas × gasPrice`
+ * @returns Fee in fee token units
+ */
+export function toFeeTokenUnits(fee: bigint) {
+	return (fee + GAS_PRICE_SCALE - 1n) / GAS_PRICE_SCALE
+}
+
+const store = durableObjectBudgetStore(env.BudgetLedger)
+
+export type BudgetViolation = {
+	/** Exceeded budget, or `unpriced` if the maximum fee can't be estimated. */
+	budget: 'global' | 'perSender' | 'unpriced'
+	message: string
+}
+
+/**
+ * Check a transaction against the tenant's budget on the sponsor's chain.
+ * @param tenant Tenant sponsoring the transaction
+ * @param sponsor Tenant's sponsor on the transaction's chain
+ * @param transaction Transaction to sponsor
+ * @param options.reserve Whether to reserve the transaction's maximum fee if it fits
+ * @returns The reserved amount and keys, and the exceeded budget if any
+ */
+export async function checkBudget(
+	tenant: Tenant,
+	sponsor: Sponsor,
+	transaction: SponsorTransaction,
+	options: { reserve: boolean },
+) {
+	const { budget } = tenant
+	const prefix = `${tenant.id}:${sponsor.chainId}`
+
+	const amount = estimateFee(transaction)
+	if (!budget) return { amount, keys: [], window: 0, violation: undefined }
+
+	const window = Math.floor(Date.now() / 1000 / PERIODS[budget.period])
+
+	// Without both, the estimated fee is 0 and nothing would be reserved.
+	if (transaction.gas === undefined || transaction.maxFeePerGas === undefined)
+		return {
+			amount,
+			keys: [],
+			window,
+			violation: {
+				budget: 'unpriced',
+				message: 'transaction must set gas and maxFeePerGas',
+			} satisfies BudgetViolation,
+		}
+
+	const globalKey = `${prefix}:global`
+	const limits: Record<string, bigint> = {}
+	if (budget.global !== undefined) limits[globalKey] = budget.global
+	if (budget.perSender !== undefined && transaction.from)
+		limits[`${prefix}:sender:${transaction.from.toLowerCase()}`] =
+			budget.perSender
+	const keys = Object.keys(limits)
+
+	const exceeded = options.reserve
+		? await store.reserve({ amount, limits, window })
+		: await store.check({ amount, limits, window })
+	const violation: BudgetViolation | undefined = exceeded
+		? {
+				budget: exceeded === globalKey ? 'global' : 'perSender',
+				message: `${exceeded === globalKey ? 'global' : 'sender'} limit of ${formatUnits(limits[exceeded] as bigint, feeTokenDecimals)} per ${budget.period}`,
+			}
+		: undefined
+
+	return { amount, keys, window, violation }
+}
+
+/**
+ * Middleware that enforces the tenant's per-sender and global spend budgets.
+ * Reserves the transaction's maximum fee before signing and reconciles it
+ * against the actual fee once the transaction is included.
+ */
+export async function budgetMiddleware(c: Context<AppEnv>, next: Next) {
+	const tenant = c.get('tenant')
+	if (!tenant.budget) return next()
+
+	const { request, transaction } = await getTransaction(c)
+
+	const { amount, keys, window, violation } = await checkBudget(
+		tenant,
+		c.get('sponsor'),
+		transaction,
+		{ reserve: true },
+	)
+	if (violation?.budget === 'unpriced')
+		return rpcError(
+			c,
+			request,
+			new RpcResponse.InvalidParamsError({
+				message: `Invalid transaction: ${violation.message}`,
+				data: { budget: violation.budget },
+			}),
+		)
+	if (violation)
+		return rpcError(
+			c,
+			request,
+			new RpcResponse.LimitExceededError({
+				message: `Sponsorship budget exceeded: ${violation.message}`,
+				data: {
+					budget: violation.budget,
+					period: tenant.budget.period,
+				},
+			}),
+		)
+
+	await next()
+
+	const { response, fee } = await getSponsorshipResult(c, request)
+
+	// Nothing was signed, release the reservation.
+	if (!response || response.error) {
+		await store.adjust({ amount: -amount, keys, window })
+		return
+	}
+
+	c.executionCtx.waitUntil(
+		fee
+			.then((actual) => {
+				if (actual === undefined) return
+				return store.adjust({ amount: actual - amount, keys, window })
+			})
+			.catch((error) =>
+				console.error('Failed to reconcile sponsorship budget', error),
+			),
+	)
+}
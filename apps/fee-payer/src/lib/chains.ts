@@ -0,0 +1,172 @@
+import { env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import type { Address } from 'ox'
+import { tempo } from 'tempo.ts/chains'
+import { Chain } from 'tempo.ts/viem'
+import { createPublicClient, http, isAddressEqual } from 'viem'
+import * as z from 'zod'
+import { alphaUsd } from './consts.js'
+import type { AppEnv, Tenant } from './tenants.js'
+import { getTransaction } from './transaction.js'
+import { zAddress, zHex } from './zod.js'
+
+/**
+ * Strategies used to pick the fee token of a sponsored transaction:
+ * - `balance`: the fee token the sponsor holds the most of.
+ * - `amm`: the fee token with the cheapest expected Fee AMM conversion to the validator token.
+ */
+export const feeTokenSelections = ['balance', 'amm'] as const
+export type FeeTokenSelection = (typeof feeTokenSelections)[number]
+
+/**
+ * Chain configuration. Each chain has its own RPC URL and, optionally, a
+ * default fee token and a sponsor account for the default tenant.
+ */
+export const ChainConfig = z.object({
+	/** Chain id. */
+	id: z.number().int().positive(),
+	/** Display name of the chain. */
+	name: z.optional(z.string()),
+	/** RPC URL used to read state and broadcast sponsored transactions. */
+	rpcUrl: z.url(),
+	/** Fee token used on this chain by tenants that do not configure one. */
+	feeToken: z.optional(zAddress()),
+	/** Fee tokens the sponsor may pay with on this chain. */
+	feeTokens: z.optional(z.array(zAddress())),
+	/** Strategy used to pick among `feeTokens`. */
+	feeTokenSelection: z.optional(z.enum(feeTokenSelections)),
+	/** Private key of the default tenant's sponsor account on this chain. */
+	sponsorPrivateKey: z.optional(zHex({ size: 32 })),
+})
+export type ChainConfig = z.output<typeof ChainConfig>
+
+/**
+ * Parse JSON-encoded chains.
+ * @param value JSON string, usually from the `CHAINS` variable
+ * @returns The parsed chains, or Tempo Testnet on `TEMPO_RPC_URL` if no chains are configured
+ */
+export function parseChains(value: string | undefined): ChainConfig[] {
+	if (!value) return [{ id: tempo.id, rpcUrl: env.TEMPO_RPC_URL }]
+	return z.array(ChainConfig).min(1).parse(JSON.parse(value))
+}
+
+function defineChain(config: ChainConfig) {
+	const chain = Chain.define({
+		id: config.id,
+		name: config.name ?? `Tempo ${config.id}`,
+		nativeCurrency: { name: 'USD', symbol: 'USD', decimals: 6 },
+		rpcUrls: { default: { http: [config.rpcUrl] } },
+	})
+	return {
+		config,
+		define: chain,
+		client: createPublicClient({
+			chain: chain({}),
+			transport: http(config.rpcUrl),
+		}),
+	}
+}
+
+export const chainConfigs = parseChains(env.CHAINS)
+
+const chains = new Map(
+	chainConfigs.map((config) => [config.id, defineChain(config)]),
+)
+
+/**
+ * Get the public client of a chain.
+ * @param chainId Chain id
+ * @returns The client, or `undefined` if the chain is not configured
+ */
+export function getClient(chainId: number) {
+	return chains.get(chainId)?.client
+}
+
+/** Chain used for requests that do not select one. */
+export const defaultChainId = chainConfigs[0]?.id ?? tempo.id
+
+/**
+ * Sponsor of a request: the tenant's account and fee token on the selected chain.
+ */
+export type Sponsor = NonNullable<ReturnType<typeof getSponsor>>
+
+/**
+ * Resolve the sponsor account, fee tokens and client of a tenant on a chain.
+ * Tenant overrides for the chain take precedence over the tenant's own settings,
+ * which take precedence over the chain's defaults.
+ * @param tenant Tenant sponsoring the request
+ * @param chainId Chain id
+ * @param feeToken Fee token to pay with, defaults to the configured fee token
+ * @returns The sponsor, or `undefined` if the chain is not configured
+ */
+export function getSponsor(
+	tenant: Tenant,
+	chainId: number,
+	feeToken?: Address.Address,
+) {
+	const entry = chains.get(chainId)
+	if (!entry) return undefined
+
+	const overrides = tenant.chains[chainId]
+	const feeTokens =
+		overrides?.feeTokens ?? tenant.feeTokens ?? entry.config.feeTokens ?? []
+	const defaultFeeToken: Address.Address =
+		overrides?.feeToken ??
+		tenant.feeToken ??
+		entry.config.feeToken ??
+		feeTokens[0] ??
+		alphaUsd
+	const selected = feeToken ?? defaultFeeToken
+
+	return {
+		chainId,
+		chain: entry.define({ feeToken: selected }),
+		client: entry.client,
+		rpcUrl: entry.config.rpcUrl,
+		account: overrides?.account ?? tenant.account,
+		/** Fee token paid for the request. */
+		feeToken: selected,
+		/** Fee tokens the sponsor may pay with, the configured fee token first. */
+		feeTokens: feeTokens.some((token) => isAddressEqual(token, defaultFeeToken))
+			? feeTokens
+			: [defaultFeeToken, ...feeTokens],
+		feeTokenSelection:
+			tenant.feeTokenSelection ?? entry.config.feeTokenSelection ?? 'balance',
+	}
+}
+
+/**
+ * Middleware that selects the chain from the `/:chainId` path prefix, or from
+ * the chain id of the transaction to sponsor, and resolves the tenant's sponsor on it.
+ * Requests without either use the first configured chain.
+ * Returns 400 for unknown chains and for transactions signed for another chain than the path's.
+ */
+export async function chainMiddleware(c: Context<AppEnv>, next: Next) {
+	const param = c.req.param('chainId')
+	const pathChainId = param ? Number(param) : undefined
+
+	let transactionChainId: number | undefined
+	if (c.req.method === 'POST') {
+		const { transaction } = await getTransaction(c)
+		transactionChainId = transaction.chainId || undefined
+	}
+
+	if (
+		pathChainId !== undefined &&
+		transactionChainId !== undefined &&
+		pathChainId !== transactionChainId
+	)
+		return c.json(
+			{
+				error: `Transaction chain ${transactionChainId} does not match chain ${pathChainId}`,
+			},
+			400,
+		)
+
+	const chainId = pathChainId ?? transactionChainId ?? defaultChainId
+	const sponsor = getSponsor(c.get('tenant'), chainId)
+	if (!sponsor) return c.json({ error: `Unsupported chain: ${chainId}` }, 400)
+
+	c.set('sponsor', sponsor)
+	await next()
+}
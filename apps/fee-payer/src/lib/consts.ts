@@ -1 +1,4 @@
 export const alphaUsd = '0x20c0000000000000000000000000000000000001' as const
+
+/** Decimals of TIP-20 fee tokens. */
+export const feeTokenDecimals = 6
@@ -0,0 +1,23 @@
+type Value = string | number | bigint | boolean | null | undefined
+
+const escapeCell = (value: Value) => {
+	const string = value === null || value === undefined ? '' : String(value)
+	return /[",\n\r]/.test(string) ? `"${string.replaceAll('"', '""')}"` : string
+}
+
+/**
+ * Serialize rows to CSV, using the keys of the first row as the header.
+ * @param rows Rows to serialize
+ * @returns CSV string
+ */
+export function toCsv(rows: readonly Record<string, Value>[]) {
+	const [first] = rows
+	if (!first) return ''
+	const columns = Object.keys(first)
+	return [
+		columns.map(escapeCell).join(','),
+		...rows.map((row) =>
+			columns.map((column) => escapeCell(row[column])).join(','),
+		),
+	].join('\n')
+}
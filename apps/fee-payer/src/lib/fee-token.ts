@@ -0,0 +1,182 @@
+import type { Context, Next } from 'hono'
+import { type Address, RpcResponse } from 'ox'
+import { TokenId } from 'tempo.ts/ox'
+import { Abis, Actions, Addresses } from 'tempo.ts/viem'
+import { isAddress, isAddressEqual, zeroAddress } from 'viem'
+import { getSponsorBalance } from './balance.js'
+import { estimateFee } from './budget.js'
+import { getSponsor, type Sponsor } from './chains.js'
+import { rpcError } from './rpc.js'
+import type { AppEnv } from './tenants.js'
+import { getTransaction } from './transaction.js'
+
+type Quote = {
+	feeToken: Address.Address
+	/** Sponsor balance of the fee token. */
+	balance: bigint
+	/** Expected cost of the fee in the fee token, or `undefined` if the Fee AMM cannot convert it. */
+	cost: bigint | undefined
+}
+
+const swapRates = new Map<number, Promise<{ m: bigint; scale: bigint }>>()
+
+/**
+ * Get the Fee AMM swap rate of a chain: fee swaps pay out `amountIn × M / SCALE`
+ * of the validator token.
+ */
+function getSwapRate({ chainId, client }: Sponsor) {
+	let rate = swapRates.get(chainId)
+	if (!rate) {
+		rate = Promise.all([
+			client.readContract({
+				address: Addresses.feeManager,
+				abi: Abis.feeAmm,
+				functionName: 'M',
+			}),
+			client.readContract({
+				address: Addresses.feeManager,
+				abi: Abis.feeAmm,
+				functionName: 'SCALE',
+			}),
+		]).then(([m, scale]) => ({ m, scale }))
+		rate.catch(() => swapRates.delete(chainId))
+		swapRates.set(chainId, rate)
+	}
+	return rate
+}
+
+/**
+ * Get the fee token of the validator that produced the latest block.
+ * @returns The validator token, or `undefined` if the validator has not set one
+ */
+async function getValidatorToken({ client }: Sponsor) {
+	const { miner } = await client.getBlock()
+	const token = await client.readContract({
+		address: Addresses.feeManager,
+		abi: Abis.feeManager,
+		functionName: 'validatorTokens',
+		args: [miner],
+	})
+	return isAddressEqual(token, zeroAddress) ? undefined : token
+}
+
+function compare(a: bigint, b: bigint) {
+	return a < b ? -1 : a > b ? 1 : 0
+}
+
+async function getBalances(sponsor: Sponsor) {
+	return Promise.all(
+		sponsor.feeTokens.map(async (feeToken) => ({
+			feeToken,
+			balance: await getSponsorBalance({ ...sponsor, feeToken }),
+		})),
+	)
+}
+
+/**
+ * Pick the fee token the sponsor holds the most of.
+ */
+async function selectByBalance(sponsor: Sponsor) {
+	const balances = await getBalances(sponsor)
+	balances.sort((a, b) => compare(b.balance, a.balance))
+	return balances[0]?.feeToken ?? sponsor.feeToken
+}
+
+/**
+ * Pick the fee token with the cheapest expected Fee AMM conversion to the
+ * validator token. Paying in the validator token needs no conversion; other
+ * tokens need enough validator token liquidity in their pool. Ties are broken
+ * by sponsor balance.
+ */
+async function selectByAmm(sponsor: Sponsor, amount: bigint) {
+	const validatorToken = await getValidatorToken(sponsor)
+	if (!validatorToken) return selectByBalance(sponsor)
+
+	const [{ m, scale }, balances] = await Promise.all([
+		getSwapRate(sponsor),
+		getBalances(sponsor),
+	])
+
+	const quotes = await Promise.all(
+		balances.map(async ({ feeToken, balance }): Promise<Quote> => {
+			if (isAddressEqual(feeToken, validatorToken))
+				return { feeToken, balance, cost: amount }
+
+			const pool = await Actions.amm.getPool(sponsor.client, {
+				userToken: feeToken,
+				validatorToken,
+			})
+			if (pool.reserveValidatorToken < amount)
+				return { feeToken, balance, cost: undefined }
+			return { feeToken, balance, cost: (amount * scale + m - 1n) / m }
+		}),
+	)
+
+	const [best] = quotes
+		.filter(
+			(quote): quote is Quote & { cost: bigint } =>
+				quote.cost !== undefined && quote.balance >= quote.cost,
+		)
+		.sort((a, b) => compare(a.cost, b.cost) || compare(b.balance, a.balance))
+	return best?.feeToken ?? selectByBalance(sponsor)
+}
+
+/**
+ * Pick the fee token to sponsor a transaction with, using the sponsor's fee token selection strategy.
+ * @param sponsor Sponsor of the transaction
+ * @param amount Maximum fee of the transaction, in fee token units
+ * @returns The fee token to pay with
+ */
+export async function selectFeeToken(sponsor: Sponsor, amount: bigint) {
+	if (sponsor.feeTokens.length <= 1) return sponsor.feeToken
+	if (sponsor.feeTokenSelection === 'amm') return selectByAmm(sponsor, amount)
+	return selectByBalance(sponsor)
+}
+
+/**
+ * Middleware that picks the fee token the sponsor pays with.
+ * A fee token set on the transaction is kept, else the `feeToken` query
+ * parameter is used, else the sponsor's selection strategy picks one.
+ * Fee tokens the sponsor may not pay with, on the transaction or in the query,
+ * are rejected with an invalid params error.
+ * The fee token used is returned in the `X-Fee-Token` header.
+ */
+export async function feeTokenMiddleware(c: Context<AppEnv>, next: Next) {
+	const { request, transaction } = await getTransaction(c)
+	const sponsor = c.get('sponsor')
+
+	const isSponsored = (token: string) =>
+		isAddress(token) &&
+		sponsor.feeTokens.some((feeToken) => isAddressEqual(feeToken, token))
+	const notSponsored = (token: string) =>
+		rpcError(
+			c,
+			request,
+			new RpcResponse.InvalidParamsError({
+				message: `Fee token ${token} is not sponsored`,
+				data: { rule: 'feeToken', feeTokens: sponsor.feeTokens },
+			}),
+		)
+
+	const hint = c.req.query('feeToken')
+	if (hint !== undefined && !isSponsored(hint)) return notSponsored(hint)
+
+	const transactionFeeToken =
+		transaction.feeToken !== undefined
+			? TokenId.toAddress(transaction.feeToken)
+			: undefined
+	if (transactionFeeToken && !isSponsored(transactionFeeToken))
+		return notSponsored(transactionFeeToken)
+
+	const feeToken =
+		transactionFeeToken ??
+		(hint as Address.Address | undefined) ??
+		(await selectFeeToken(sponsor, estimateFee(transaction)))
+
+	c.set(
+		'sponsor',
+		getSponsor(c.get('tenant'), sponsor.chainId, feeToken) as Sponsor,
+	)
+	await next()
+	c.header('X-Fee-Token', feeToken)
+}
@@ -0,0 +1,189 @@
+import type { Context, Next } from 'hono'
+import { Hex, RpcResponse } from 'ox'
+import { TokenId } from 'tempo.ts/ox'
+import * as z from 'zod'
+import { rpcError } from './rpc.js'
+import type { AppEnv } from './tenants.js'
+import { getTransaction, type SponsorTransaction } from './transaction.js'
+import { zAddress, zHex } from './zod.js'
+
+const zList = <schema extends z.ZodType>(schema: schema) =>
+	z.object({
+		allow: z.optional(z.array(schema)),
+		deny: z.optional(z.array(schema)),
+	})
+
+/**
+ * Sponsorship policy. Every field is optional; omitted rules are not enforced.
+ */
+export const Policy = z.object({
+	/** Sender (`from`) allow/deny list. */
+	senders: z.optional(zList(zAddress({ lowercase: true }))),
+	/** Call target (`calls[].to`) allow/deny list. */
+	targets: z.optional(zList(zAddress({ lowercase: true }))),
+	/** Function selector (first 4 bytes of `calls[].data`) allow/deny list. */
+	selectors: z.optional(zList(zHex({ size: 4, lowercase: true }))),
+	/** Fee tokens the sender may request. */
+	feeTokens: z.optional(z.array(zAddress({ lowercase: true }))),
+	/** Maximum number of calls in a single transaction. */
+	maxCalls: z.optional(z.number().int().positive()),
+	/** Maximum total value across all calls. */
+	maxValue: z.optional(z.coerce.bigint()),
+	/** Maximum gas limit. */
+	maxGas: z.optional(z.coerce.bigint()),
+	/** Whether calls without a target (contract creation) may be sponsored. */
+	allowContractCreation: z.optional(z.boolean()),
+})
+export type Policy = z.output<typeof Policy>
+
+export type PolicyRule =
+	| 'senders.allow'
+	| 'senders.deny'
+	| 'targets.allow'
+	| 'targets.deny'
+	| 'selectors.allow'
+	| 'selectors.deny'
+	| 'feeTokens'
+	| 'maxCalls'
+	| 'maxValue'
+	| 'maxGas'
+	| 'allowContractCreation'
+
+export type PolicyViolation = {
+	rule: PolicyRule
+	message: string
+}
+
+/**
+ * Parse a JSON-encoded policy.
+ * @param value JSON string, usually from the `SPONSOR_POLICY` variable
+ * @returns The parsed policy, or `undefined` if no policy is configured
+ */
+export function parsePolicy(value: string | undefined) {
+	if (!value) return undefined
+	return Policy.parse(JSON.parse(value))
+}
+
+const includes = (list: readonly string[] | undefined, value: string) =>
+	list?.includes(value.toLowerCase()) ?? false
+
+/**
+ * Evaluate a transaction against a policy.
+ * @param policy Policy to enforce
+ * @param transaction Transaction to sponsor
+ * @returns The first rule the transaction violates, or `undefined` if it is allowed
+ */
+export function evaluatePolicy(
+	policy: Policy,
+	transaction: SponsorTransaction,
+): PolicyViolation | undefined {
+	const { calls = [], from, gas } = transaction
+
+	if (policy.senders) {
+		const sender = from ?? ''
+		if (includes(policy.senders.deny, sender))
+			return { rule: 'senders.deny', message: `Sender ${from} is denied` }
+		if (policy.senders.allow && !includes(policy.senders.allow, sender))
+			return {
+				rule: 'senders.allow',
+				message: `Sender ${from} is not allowed`,
+			}
+	}
+
+	if (policy.feeTokens && transaction.feeToken !== undefined) {
+		const feeToken = TokenId.toAddress(transaction.feeToken)
+		if (!includes(policy.feeTokens, feeToken))
+			return {
+				rule: 'feeTokens',
+				message: `Fee token ${feeToken} is not allowed`,
+			}
+	}
+
+	if (policy.maxCalls !== undefined && calls.length > policy.maxCalls)
+		return {
+			rule: 'maxCalls',
+			message: `Transaction has ${calls.length} calls, maximum is ${policy.maxCalls}`,
+		}
+
+	if (policy.maxGas !== undefined && gas !== undefined && gas > policy.maxGas)
+		return {
+			rule: 'maxGas',
+			message: `Gas limit ${gas} exceeds maximum of ${policy.maxGas}`,
+		}
+
+	if (policy.maxValue !== undefined) {
+		const value = calls.reduce((sum, call) => sum + (call.value ?? 0n), 0n)
+		if (value > policy.maxValue)
+			return {
+				rule: 'maxValue',
+				message: `Value ${value} exceeds maximum of ${policy.maxValue}`,
+			}
+	}
+
+	for (const call of calls) {
+		if (!call.to) {
+			if (policy.allowContractCreation === false)
+				return {
+					rule: 'allowContractCreation',
+					message: 'Contract creation is not allowed',
+				}
+			continue
+		}
+
+		if (policy.targets) {
+			if (includes(policy.targets.deny, call.to))
+				return {
+					rule: 'targets.deny',
+					message: `Call target ${call.to} is denied`,
+				}
+			if (policy.targets.allow && !includes(policy.targets.allow, call.to))
+				return {
+					rule: 'targets.allow',
+					message: `Call target ${call.to} is not allowed`,
+				}
+		}
+
+		if (policy.selectors) {
+			const selector =
+				call.data && Hex.size(call.data) >= 4
+					? Hex.slice(call.data, 0, 4)
+					: '0x'
+			if (includes(policy.selectors.deny, selector))
+				return {
+					rule: 'selectors.deny',
+					message: `Function selector ${selector} is denied`,
+				}
+			if (policy.selectors.allow && !includes(policy.selectors.allow, selector))
+				return {
+					rule: 'selectors.allow',
+					message: `Function selector ${selector} is not allowed`,
+				}
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Middleware that enforces the tenant's sponsorship policy.
+ * Returns a JSON-RPC error naming the violated rule if the transaction is rejected.
+ */
+export async function policyMiddleware(c: Context<AppEnv>, next: Next) {
+	const { policy } = c.get('tenant')
+	if (!policy) return next()
+
+	const { request, transaction } = await getTransaction(c)
+
+	const violation = evaluatePolicy(policy, transaction)
+	if (violation)
+		return rpcError(
+			c,
+			request,
+			new RpcResponse.TransactionRejectedError({
+				message: `Sponsorship rejected by policy: ${violation.message}`,
+				data: { rule: violation.rule },
+			}),
+		)
+
+	await next()
+}
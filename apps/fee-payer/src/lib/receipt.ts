@@ -0,0 +1,86 @@
+import type { Context } from 'hono'
+import type { Hex, RpcRequest, RpcResponse } from 'ox'
+import { keccak256 } from 'viem'
+import { toFeeTokenUnits } from './budget.js'
+import type { AppEnv } from './tenants.js'
+
+type ReceiptRpc = {
+	transactionHash: Hex.Hex
+	gasUsed: Hex.Hex
+	effectiveGasPrice: Hex.Hex
+}
+
+export type SponsorshipResult = {
+	/** JSON-RPC response returned to the client. */
+	response: RpcResponse.RpcResponse | undefined
+	/** Hash of the sponsored transaction, if it was signed. */
+	hash: Hex.Hex | undefined
+	/**
+	 * Actual fee in fee token units once the transaction is included.
+	 * Resolves to `undefined` if the transaction was not broadcast by the fee payer.
+	 */
+	fee: Promise<bigint | undefined>
+}
+
+/**
+ * Read the outcome of a sponsorship request from the handler's response.
+ * Must be called after the handler ran. The result is cached on the context so
+ * middlewares share a single receipt lookup.
+ * @param c Hono context
+ * @param request RPC request that was handled
+ * @returns The sponsorship result
+ */
+export function getSponsorshipResult(
+	c: Context<AppEnv>,
+	request: RpcRequest.RpcRequest,
+) {
+	const cached = c.get('sponsorship')
+	if (cached) return cached
+
+	const promise = (async (): Promise<SponsorshipResult> => {
+		const response = (await c.res
+			.clone()
+			.json()
+			.catch(() => undefined)) as RpcResponse.RpcResponse | undefined
+
+		if (!response || response.error)
+			return { response, hash: undefined, fee: Promise.resolve(undefined) }
+
+		if (request.method === 'eth_sendRawTransactionSync') {
+			const receipt = response.result as ReceiptRpc
+			return {
+				response,
+				hash: receipt.transactionHash,
+				fee: Promise.resolve(
+					toFeeTokenUnits(
+						BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice),
+					),
+				),
+			}
+		}
+
+		if (request.method === 'eth_sendRawTransaction') {
+			const hash = response.result as Hex.Hex
+			return {
+				response,
+				hash,
+				fee: c
+					.get('sponsor')
+					.client.waitForTransactionReceipt({ hash })
+					.then(({ gasUsed, effectiveGasPrice }) =>
+						toFeeTokenUnits(gasUsed * effectiveGasPrice),
+					),
+			}
+		}
+
+		// Signing methods return the serialized transaction without broadcasting it.
+		return {
+			response,
+			hash: keccak256(response.result as Hex.Hex),
+			fee: Promise.resolve(undefined),
+		}
+	})()
+
+	c.set('sponsorship', promise)
+	return promise
+}
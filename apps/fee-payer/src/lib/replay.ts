@@ -0,0 +1,253 @@
+import { DurableObject, env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import { type Address, type Hex, RpcResponse } from 'ox'
+import { Actions } from 'tempo.ts/viem'
+import * as z from 'zod'
+import type { Sponsor } from './chains.js'
+import { getSponsorshipResult } from './receipt.js'
+import { rpcError } from './rpc.js'
+import type { AppEnv } from './tenants.js'
+import {
+	getSignPayload,
+	getTransaction,
+	type SponsorTransaction,
+} from './transaction.js'
+
+/**
+ * Replay and abuse protection settings.
+ */
+export const ReplayConfig = z.object({
+	/** Seconds a sponsored transaction is remembered to reject duplicates. `0` disables deduplication. */
+	dedupTtl: z.prefault(z.number().int().nonnegative(), 600),
+	/** Maximum number of nonces a transaction may skip past the sender's next nonce. */
+	maxNonceGap: z.prefault(z.number().int().nonnegative(), 16),
+	/** Maximum number of seconds `validAfter` may be in the future. */
+	maxValidAfter: z.prefault(z.number().int().nonnegative(), 60 * 60),
+})
+export type ReplayConfig = z.output<typeof ReplayConfig>
+
+/**
+ * Parse a JSON-encoded replay protection configuration.
+ * @param value JSON string, usually from the `SPONSOR_REPLAY` variable
+ * @returns The parsed configuration
+ */
+export function parseReplayConfig(value: string | undefined) {
+	return ReplayConfig.parse(value ? JSON.parse(value) : {})
+}
+
+const config = parseReplayConfig(env.SPONSOR_REPLAY)
+
+export type ReplayRule =
+	| 'replay.duplicate'
+	| 'replay.nonce'
+	| 'replay.validBefore'
+	| 'replay.validAfter'
+
+export type ReplayViolation = {
+	rule: ReplayRule
+	message: string
+}
+
+/**
+ * Storage for hashes of sponsored transactions.
+ */
+export type ReplayStore = {
+	/**
+	 * Remember a transaction hash until it expires.
+	 * @returns `false` if the hash was already remembered
+	 */
+	claim: (key: string, hash: Hex.Hex, expiresAt: number) => Promise<boolean>
+	/** Forget a transaction hash, e.g. when the transaction was not sponsored. */
+	release: (key: string, hash: Hex.Hex) => Promise<void>
+}
+
+/**
+ * Replay store backed by one SQLite {@link ReplayGuard} Durable Object per sender.
+ * @param namespace Durable Object namespace binding
+ */
+export function durableObjectReplayStore(
+	namespace: DurableObjectNamespace<ReplayGuard>,
+): ReplayStore {
+	return {
+		claim: (key, hash, expiresAt) =>
+			namespace.getByName(key).claim(hash, expiresAt),
+		release: (key, hash) => namespace.getByName(key).release(hash),
+	}
+}
+
+/**
+ * Durable Object remembering the transactions sponsored for a sender.
+ * Requests are processed one at a time, so claims are atomic.
+ */
+export class ReplayGuard extends DurableObject<Env> {
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env)
+		this.ctx.storage.sql.exec(`
+			CREATE TABLE IF NOT EXISTS hashes (
+				hash TEXT PRIMARY KEY,
+				expires_at INTEGER NOT NULL
+			);
+			CREATE INDEX IF NOT EXISTS hashes_expires_at ON hashes (expires_at);
+		`)
+	}
+
+	async claim(hash: Hex.Hex, expiresAt: number) {
+		const now = Math.floor(Date.now() / 1000)
+		this.ctx.storage.sql.exec('DELETE FROM hashes WHERE expires_at <= ?', now)
+		const seen = this.ctx.storage.sql
+			.exec('SELECT 1 FROM hashes WHERE hash = ?', hash)
+			.toArray()
+		if (seen.length > 0) return false
+		this.ctx.storage.sql.exec(
+			'INSERT INTO hashes (hash, expires_at) VALUES (?, ?)',
+			hash,
+			expiresAt,
+		)
+		return true
+	}
+
+	async release(hash: Hex.Hex) {
+		this.ctx.storage.sql.exec('DELETE FROM hashes WHERE hash = ?', hash)
+	}
+}
+
+const store = durableObjectReplayStore(env.ReplayGuard)
+
+/**
+ * Check the validity window of a transaction.
+ * @param transaction Transaction to sponsor
+ * @returns The violated rule, or `undefined` if the transaction is currently valid or becomes valid soon enough
+ */
+function checkValidity(
+	transaction: SponsorTransaction,
+): ReplayViolation | undefined {
+	const now = Math.floor(Date.now() / 1000)
+	const { validAfter, validBefore } = transaction
+
+	if (validBefore !== undefined && validBefore <= now)
+		return {
+			rule: 'replay.validBefore',
+			message: `Transaction expired at ${validBefore}`,
+		}
+	if (validAfter !== undefined && validAfter > now + config.maxValidAfter)
+		return {
+			rule: 'replay.validAfter',
+			message: `Transaction is not valid until ${validAfter}, more than ${config.maxValidAfter}s from now`,
+		}
+	return undefined
+}
+
+/**
+ * Check the nonce of a transaction against the sender's next nonce.
+ * @param sponsor Sponsor of the transaction, used to read the sender's nonce
+ * @param sender Sender of the transaction
+ * @param transaction Transaction to sponsor
+ * @returns The violated rule, or `undefined` if the nonce is usable
+ */
+async function checkNonce(
+	sponsor: Sponsor,
+	sender: Address.Address,
+	transaction: SponsorTransaction,
+): Promise<ReplayViolation | undefined> {
+	if (transaction.nonce === undefined) return undefined
+
+	const nonce = BigInt(transaction.nonce)
+	const nonceKey = transaction.nonceKey ?? 0n
+	const next = nonceKey
+		? await Actions.nonce.getNonce(sponsor.client, {
+				account: sender,
+				nonceKey,
+			})
+		: BigInt(
+				await sponsor.client.getTransactionCount({
+					address: sender,
+					blockTag: 'pending',
+				}),
+			)
+
+	if (nonce < next)
+		return {
+			rule: 'replay.nonce',
+			message: `Nonce ${nonce} was already used, next nonce is ${next}`,
+		}
+	if (nonce > next + BigInt(config.maxNonceGap))
+		return {
+			rule: 'replay.nonce',
+			message: `Nonce ${nonce} is more than ${config.maxNonceGap} ahead of next nonce ${next}`,
+		}
+	return undefined
+}
+
+/**
+ * Check a transaction for replays: an expired or far future validity window,
+ * a used or far ahead nonce, or a duplicate of a recently sponsored transaction.
+ * Duplicates are matched on the sender's sign payload, so re-encoding or
+ * re-signing a transaction does not get it sponsored twice.
+ * @param sponsor Sponsor of the transaction
+ * @param transaction Transaction to sponsor
+ * @param options.claim Whether to remember the transaction so duplicates are rejected
+ * @returns The claimed key and hash, and the violated rule if any
+ */
+export async function checkReplay(
+	sponsor: Sponsor,
+	transaction: SponsorTransaction,
+	options: { claim: boolean },
+) {
+	const hash = getSignPayload(transaction)
+	const sender = transaction.from?.toLowerCase() as Address.Address | undefined
+	const key = `${sponsor.chainId}:${sender ?? 'unknown'}`
+
+	const violation =
+		checkValidity(transaction) ??
+		(sender ? await checkNonce(sponsor, sender, transaction) : undefined)
+	if (violation || !options.claim || config.dedupTtl === 0)
+		return { key, hash, claimed: false, violation }
+
+	const claimed = await store.claim(
+		key,
+		hash,
+		Math.floor(Date.now() / 1000) + config.dedupTtl,
+	)
+	return {
+		key,
+		hash,
+		claimed,
+		violation: claimed
+			? undefined
+			: ({
+					rule: 'replay.duplicate',
+					message: 'Transaction was already sponsored',
+				} satisfies ReplayViolation),
+	}
+}
+
+/**
+ * Middleware that rejects replayed transactions before they are signed.
+ * Duplicates are remembered once sponsored, and forgotten if sponsoring fails
+ * so the transaction can be retried.
+ * Returns a JSON-RPC error with the violated rule.
+ */
+export async function replayMiddleware(c: Context<AppEnv>, next: Next) {
+	const { request, transaction } = await getTransaction(c)
+
+	const { key, hash, claimed, violation } = await checkReplay(
+		c.get('sponsor'),
+		transaction,
+		{ claim: true },
+	)
+	if (violation)
+		return rpcError(
+			c,
+			request,
+			new RpcResponse.TransactionRejectedError({
+				message: `Sponsorship rejected: ${violation.message}`,
+				data: { rule: violation.rule },
+			}),
+		)
+
+	await next()
+
+	if (!claimed) return
+	const { response } = await getSponsorshipResult(c, request)
+	if (!response || response.error) await store.release(key, hash)
+}
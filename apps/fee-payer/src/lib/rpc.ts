@@ -0,0 +1,28 @@
+import type { Context } from 'hono'
+import { type RpcRequest, RpcResponse } from 'ox'
+
+/**
+ * Build a JSON-RPC error response for a request that will not be sponsored.
+ * @param c Hono context
+ * @param request RPC request being answered
+ * @param error JSON-RPC error to return
+ * @returns JSON response containing the error object
+ */
+export function rpcError(
+	c: Context,
+	request: RpcRequest.RpcRequest,
+	error: RpcResponse.BaseError,
+) {
+	return c.json(
+		RpcResponse.from(
+			{
+				error: {
+					code: error.code,
+					message: error.message,
+					data: error.data,
+				},
+			},
+			{ request },
+		),
+	)
+}
@@ -0,0 +1,171 @@
+import type { Context, Next } from 'hono'
+import { RpcResponse } from 'ox'
+import { Abis } from 'tempo.ts/viem'
+import {
+	BaseError,
+	type CallParameters,
+	decodeErrorResult,
+	formatUnits,
+	RawContractError,
+} from 'viem'
+import { getBalanceStatus, getSponsorBalance, isPaused } from './balance.js'
+import { checkBudget, toFeeTokenUnits } from './budget.js'
+import type { Sponsor } from './chains.js'
+import { feeTokenDecimals } from './consts.js'
+import { evaluatePolicy } from './policy.js'
+import { checkReplay } from './replay.js'
+import { rpcError } from './rpc.js'
+import type { AppEnv, Tenant } from './tenants.js'
+import { getTransaction, type SponsorTransaction } from './transaction.js'
+
+export type SimulationRejection =
+	| { type: 'policy'; rule: string; message: string }
+	| { type: 'budget'; budget: string; message: string }
+	| { type: 'balance'; message: string }
+	| { type: 'replay'; rule: string; message: string }
+	| { type: 'revert'; message: string }
+
+/**
+ * Extract a human readable revert reason from a failed call.
+ * @param error Error thrown by `eth_call` or `eth_estimateGas`
+ * @returns The decoded revert reason, or the error message
+ */
+function getRevertReason(error: unknown) {
+	if (!(error instanceof BaseError)) return String(error)
+
+	const raw = error.walk((e) => e instanceof RawContractError) as
+		| RawContractError
+		| undefined
+	const data = typeof raw?.data === 'string' ? raw.data : raw?.data?.data
+	if (data && data !== '0x')
+		try {
+			const { errorName, args } = decodeErrorResult({
+				abi: [...Abis.tip20, ...Abis.feeManager],
+				data,
+			})
+			return args?.length ? `${errorName}(${args.join(', ')})` : errorName
+		} catch {}
+
+	return error.shortMessage
+}
+
+/**
+ * Decide whether a transaction would be sponsored and estimate its fee, without signing or broadcasting it.
+ * @param tenant Tenant sponsoring the transaction
+ * @param sponsor Tenant's sponsor on the transaction's chain
+ * @param transaction Transaction to sponsor
+ * @returns The sponsorship decision, estimated fee and revert reason if the transaction would revert
+ */
+export async function simulateSponsorship(
+	tenant: Tenant,
+	sponsor: Sponsor,
+	transaction: SponsorTransaction,
+) {
+	const { client } = sponsor
+	const rejections: SimulationRejection[] = []
+
+	const policyViolation = tenant.policy
+		? evaluatePolicy(tenant.policy, transaction)
+		: undefined
+	if (policyViolation)
+		rejections.push({
+			type: 'policy',
+			rule: policyViolation.rule,
+			message: policyViolation.message,
+		})
+
+	const [balance, budget, replay] = await Promise.all([
+		getSponsorBalance(sponsor),
+		checkBudget(tenant, sponsor, transaction, { reserve: false }),
+		checkReplay(sponsor, transaction, { claim: false }),
+	])
+	if (replay.violation)
+		rejections.push({
+			type: 'replay',
+			rule: replay.violation.rule,
+			message: replay.violation.message,
+		})
+	if (budget.violation)
+		rejections.push({
+			type: 'budget',
+			budget: budget.violation.budget,
+			message: budget.violation.message,
+		})
+	if (isPaused(getBalanceStatus(balance), tenant.priority))
+		rejections.push({
+			type: 'balance',
+			message: 'Sponsor balance is low',
+		})
+
+	const callRequest: CallParameters<typeof client.chain> = {
+		account: transaction.from,
+		calls: transaction.calls,
+		feeToken: sponsor.feeToken,
+		nonceKey: transaction.nonceKey,
+		validAfter: transaction.validAfter,
+		validBefore: transaction.validBefore,
+	}
+
+	let estimatedGas: bigint | null = null
+	let revertReason: string | null = null
+	try {
+		await client.call(callRequest)
+		estimatedGas = await client.estimateGas(callRequest)
+	} catch (error) {
+		revertReason = getRevertReason(error)
+		rejections.push({ type: 'revert', message: revertReason })
+	}
+
+	const maxFeePerGas = transaction.maxFeePerGas ?? (await client.getGasPrice())
+	const estimatedFee =
+		estimatedGas !== null
+			? formatUnits(
+					toFeeTokenUnits(estimatedGas * maxFeePerGas),
+					feeTokenDecimals,
+				)
+			: null
+
+	return {
+		sponsor: rejections.length === 0,
+		rejections,
+		chainId: sponsor.chainId,
+		feeToken: sponsor.feeToken,
+		estimatedGas: estimatedGas?.toString() ?? null,
+		estimatedFee,
+		maxFee: formatUnits(budget.amount, feeTokenDecimals),
+		revertReason,
+	}
+}
+
+/**
+ * Whether a request only asks for a sponsorship simulation, with `?dryRun=1`.
+ * @param c Hono context
+ */
+export function isDryRun(c: Context<AppEnv>) {
+	const dryRun = c.req.query('dryRun')
+	return !!dryRun && dryRun !== '0' && dryRun !== 'false'
+}
+
+/**
+ * Middleware that answers `?dryRun=1` requests with a sponsorship simulation
+ * instead of signing the transaction.
+ */
+export async function dryRunMiddleware(c: Context<AppEnv>, next: Next) {
+	if (!isDryRun(c)) return next()
+
+	const { request, transaction } = await getTransaction(c)
+	try {
+		const result = await simulateSponsorship(
+			c.get('tenant'),
+			c.get('sponsor'),
+			transaction,
+		)
+		return c.json(RpcResponse.from({ result }, { request }))
+	} catch (error) {
+		return rpcError(
+			c,
+			request,
+			new RpcResponse.InternalError({ message: (error as Error).message }),
+		)
+	}
+}
@@ -0,0 +1,164 @@
+import { env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import { privateKeyToAccount } from 'viem/accounts'
+import * as z from 'zod'
+import { priorities } from './balance.js'
+import { Budget, parseBudget } from './budget.js'
+import { chainConfigs, feeTokenSelections, type Sponsor } from './chains.js'
+import { Policy, parsePolicy } from './policy.js'
+import type { SponsorshipResult } from './receipt.js'
+import { zAddress, zHex } from './zod.js'
+
+/**
+ * Per-chain overrides of a tenant's sponsor account and fee tokens.
+ */
+export const TenantChain = z.object({
+	/** Private key of the sponsor account on this chain. */
+	sponsorPrivateKey: z.optional(zHex({ size: 32 })),
+	/** Fee token used on this chain. */
+	feeToken: z.optional(zAddress()),
+	/** Fee tokens the sponsor may pay with on this chain. */
+	feeTokens: z.optional(z.array(zAddress())),
+})
+
+/**
+ * Tenant configuration. Each tenant has its own API key, sponsor account,
+ * fee token, allowed origins, policy and budget.
+ */
+export const Tenant = z
+	.object({
+		/** Unique tenant identifier. */
+		id: z.string().min(1),
+		/** API key sent by the tenant in the `Authorization` header. */
+		apiKey: z.string().min(1),
+		/** Private key of the sponsor account. */
+		sponsorPrivateKey: zHex({ size: 32 }),
+		/** Fee token used to pay for sponsored transactions. Defaults to the chain's fee token. */
+		feeToken: z.optional(zAddress()),
+		/** Fee tokens the sponsor may pay with. Defaults to the chain's fee tokens. */
+		feeTokens: z.optional(z.array(zAddress())),
+		/** Strategy used to pick among `feeTokens`. Defaults to the chain's strategy, then `balance`. */
+		feeTokenSelection: z.optional(z.enum(feeTokenSelections)),
+		/** Overrides keyed by chain id. */
+		chains: z.prefault(z.record(z.string(), TenantChain), {}),
+		/** Origins allowed to use the tenant's API key, or `*` for any. */
+		allowedOrigins: z.prefault(
+			z.union([z.literal('*'), z.array(z.string())]),
+			'*',
+		),
+		/** Priority used to decide which tenants stop being sponsored first when the sponsor balance is low. */
+		priority: z.prefault(z.enum(priorities), 'normal'),
+		/** Sponsorship policy. */
+		policy: z.optional(Policy),
+		/** Spend budget. */
+		budget: z.optional(Budget),
+	})
+	.transform(({ sponsorPrivateKey, chains, ...tenant }) => ({
+		...tenant,
+		account: privateKeyToAccount(sponsorPrivateKey),
+		chains: toChainOverrides(Object.entries(chains)),
+	}))
+export type Tenant = z.output<typeof Tenant>
+
+function toChainOverrides(
+	entries: [string | number, z.output<typeof TenantChain>][],
+) {
+	return Object.fromEntries(
+		entries.map(([chainId, { sponsorPrivateKey, ...overrides }]) => [
+			chainId,
+			{
+				...overrides,
+				account: sponsorPrivateKey
+					? privateKeyToAccount(sponsorPrivateKey)
+					: undefined,
+			},
+		]),
+	)
+}
+
+export type AppEnv = {
+	Variables: {
+		tenant: Tenant
+		sponsor: Sponsor
+		sponsorship: Promise<SponsorshipResult>
+	}
+}
+
+/**
+ * Parse JSON-encoded tenants.
+ * @param value JSON string, usually from the `TENANTS` secret
+ * @returns The parsed tenants
+ */
+export function parseTenants(value: string | undefined) {
+	if (!value) return []
+	return z.array(Tenant).parse(JSON.parse(value))
+}
+
+const tenants = new Map(
+	parseTenants(env.TENANTS).map((tenant) => [tenant.apiKey, tenant]),
+)
+
+/** Tenant used for requests without an API key, configured from the top-level variables. */
+const defaultTenant: Tenant | undefined = env.SPONSOR_PRIVATE_KEY
+	? {
+			id: 'default',
+			apiKey: '',
+			account: privateKeyToAccount(env.SPONSOR_PRIVATE_KEY as `0x${string}`),
+			feeToken: undefined,
+			feeTokens: undefined,
+			feeTokenSelection: undefined,
+			chains: toChainOverrides(
+				chainConfigs.map(({ id, sponsorPrivateKey }) => [
+					id,
+					{ sponsorPrivateKey },
+				]),
+			),
+			allowedOrigins:
+				env.ALLOWED_ORIGINS === '*'
+					? '*'
+					: env.ALLOWED_ORIGINS.split(',').map((origin) => origin.trim()),
+			priority: 'normal',
+			policy: parsePolicy(env.SPONSOR_POLICY),
+			budget: parseBudget(env.SPONSOR_BUDGET),
+		}
+	: undefined
+
+/**
+ * Check whether an origin is allowed for a tenant.
+ * @param tenant Tenant to check
+ * @param origin Request origin
+ */
+export function isOriginAllowed(tenant: Tenant, origin: string) {
+	return tenant.allowedOrigins === '*' || tenant.allowedOrigins.includes(origin)
+}
+
+/**
+ * Check whether an origin is allowed for any tenant. Used for CORS preflight
+ * requests, which do not carry the `Authorization` header.
+ * @param origin Request origin
+ */
+export function isOriginAllowedForAnyTenant(origin: string) {
+	if (defaultTenant && isOriginAllowed(defaultTenant, origin)) return true
+	for (const tenant of tenants.values())
+		if (isOriginAllowed(tenant, origin)) return true
+	return false
+}
+
+/**
+ * Middleware that resolves the tenant from the `Authorization: Bearer <apiKey>` header.
+ * Requests without an API key use the default tenant.
+ * Returns 401 for unknown API keys and 403 for origins the tenant does not allow.
+ */
+export async function tenantMiddleware(c: Context<AppEnv>, next: Next) {
+	const apiKey = c.req.header('Authorization')?.replace(/^Bearer\s+/i, '')
+
+	const tenant = apiKey ? tenants.get(apiKey) : defaultTenant
+	if (!tenant) return c.json({ error: 'Invalid API key' }, 401)
+
+	const origin = c.req.header('Origin')
+	if (origin && !isOriginAllowed(tenant, origin))
+		return c.json({ error: 'Origin not allowed' }, 403)
+
+	c.set('tenant', tenant)
+	await next()
+}
@@ -0,0 +1,209 @@
+import type { Context } from 'hono'
+import { cloneRawRequest } from 'hono/request'
+import {
+	Address,
+	type Hex,
+	P256,
+	RpcRequest,
+	RpcResponse,
+	Secp256k1,
+	WebAuthnP256,
+} from 'ox'
+import { type SignatureEnvelope, TransactionEnvelopeTempo } from 'tempo.ts/ox'
+import { Transaction } from 'tempo.ts/viem'
+
+export type SponsorTransaction = Transaction.TransactionSerializableTempo & {
+	from?: Address.Address | undefined
+}
+
+/**
+ * Error thrown when the request body is not a JSON-RPC request carrying a
+ * transaction to sponsor. Answered with a 400 JSON-RPC error response.
+ */
+export class InvalidSponsorRequestError extends Error {
+	override readonly name = 'InvalidSponsorRequestError'
+
+	constructor(
+		readonly error: RpcResponse.BaseError,
+		readonly request?: RpcRequest.RpcRequest | undefined,
+	) {
+		super(error.message)
+	}
+
+	/** JSON-RPC error response to return to the client. */
+	toResponse() {
+		return {
+			jsonrpc: '2.0',
+			id: this.request?.id ?? null,
+			error: {
+				code: this.error.code,
+				message: this.error.message,
+			},
+		} as const
+	}
+}
+
+/**
+ * Get the address that signed a sender signature envelope.
+ * @param signature Sender signature envelope
+ * @param payload Sender sign payload of the transaction
+ * @returns The signer address, or `undefined` if the signature is invalid
+ */
+function getSigner(
+	signature: SignatureEnvelope.SignatureEnvelope,
+	payload: Hex.Hex,
+): Address.Address | undefined {
+	if (signature.type === 'secp256k1')
+		return Secp256k1.recoverAddress({ payload, signature: signature.signature })
+	if (signature.type === 'p256')
+		return P256.verify({
+			hash: signature.prehash,
+			payload,
+			publicKey: signature.publicKey,
+			signature: signature.signature,
+		})
+			? Address.fromPublicKey(signature.publicKey)
+			: undefined
+	if (signature.type === 'webAuthn')
+		return WebAuthnP256.verify({
+			challenge: payload,
+			metadata: signature.metadata,
+			publicKey: signature.publicKey,
+			signature: signature.signature,
+		})
+			? Address.fromPublicKey(signature.publicKey)
+			: undefined
+	// Access keys sign for the root account; their authorization is checked by the protocol.
+	if (signature.type === 'keychain')
+		return getSigner(signature.inner, payload)
+			? signature.userAddress
+			: undefined
+	return undefined
+}
+
+/**
+ * Get the payload the sender signed, independent of how the transaction was encoded.
+ * @param transaction Transaction to sponsor
+ * @returns Hash of the transaction without its signatures
+ */
+export function getSignPayload(transaction: SponsorTransaction) {
+	const envelope = TransactionEnvelopeTempo.from({
+		...(transaction as TransactionEnvelopeTempo.TransactionEnvelopeTempo),
+		nonce: BigInt(transaction.nonce ?? 0),
+		// Senders of sponsored transactions sign with a placeholder instead of the fee payer signature.
+		feePayerSignature:
+			transaction.feePayerSignature === undefined ? undefined : null,
+		signature: undefined,
+	})
+	return TransactionEnvelopeTempo.getSignPayload(envelope)
+}
+
+/**
+ * Get the sender of a serialized transaction from its signature.
+ * @param transaction Deserialized transaction
+ * @returns The sender, or `undefined` if the transaction is unsigned or its signature is invalid
+ */
+function getSender(transaction: SponsorTransaction) {
+	const { signature } = transaction
+	if (!signature) return undefined
+
+	try {
+		return getSigner(
+			signature as SignatureEnvelope.SignatureEnvelope,
+			getSignPayload(transaction),
+		)
+	} catch {
+		return undefined
+	}
+}
+
+const transactions = new WeakMap<Request, ReturnType<typeof readTransaction>>()
+
+/**
+ * Read the JSON-RPC request and the transaction to sponsor from the request body.
+ * Only signed serialized `0x76` transactions are accepted: the handler signs
+ * transaction request objects with the sponsor as sender, so their `from`
+ * cannot be trusted. The sender is recovered from the signature.
+ * The result is cached per request.
+ * @param c Hono context
+ * @returns The parsed RPC request and the deserialized transaction
+ * @throws {InvalidSponsorRequestError} If the body is not a valid JSON-RPC request or the transaction cannot be read
+ */
+export function getTransaction(c: Context) {
+	let result = transactions.get(c.req.raw)
+	if (!result) {
+		result = readTransaction(c)
+		transactions.set(c.req.raw, result)
+	}
+	return result
+}
+
+async function readTransaction(c: Context) {
+	// Clone the request to read the body without consuming the original
+	const clonedRequest = await cloneRawRequest(c.req)
+	const body = (await clonedRequest.json().catch(() => undefined)) as
+		| Record<string, unknown>
+		| undefined
+	if (!body || typeof body !== 'object')
+		throw new InvalidSponsorRequestError(
+			new RpcResponse.ParseError({ message: 'Request body is not valid JSON' }),
+		)
+	if (
+		typeof body.method !== 'string' ||
+		(body.params !== undefined && !Array.isArray(body.params))
+	)
+		throw new InvalidSponsorRequestError(
+			new RpcResponse.InvalidRequestError({
+				message: 'Request body is not a valid JSON-RPC request',
+			}),
+		)
+
+	// biome-ignore lint/suspicious/noExplicitAny: _
+	const request = RpcRequest.from(body as any)
+	// `eth_signTransaction` signs a transaction request as the sponsor itself.
+	if (request.method === 'eth_signTransaction')
+		throw new InvalidSponsorRequestError(
+			new RpcResponse.MethodNotSupportedError({
+				message: `Method not supported: ${request.method}`,
+			}),
+			request,
+		)
+	const param = request.params?.[0]
+
+	const transaction = (() => {
+		try {
+			if (typeof param === 'string' && param.startsWith('0x76'))
+				return Transaction.deserialize(
+					param as `0x76${string}`,
+				) as SponsorTransaction
+		} catch {}
+		throw new InvalidSponsorRequestError(
+			new RpcResponse.InvalidParamsError({
+				message: 'First param must be a signed serialized 0x76 transaction',
+			}),
+			request,
+		)
+	})()
+
+	// The sender appended to serialized transactions is not signed, check it against the signature.
+	const sender = getSender(transaction)
+	if (
+		!sender ||
+		(transaction.from && !Address.isEqual(sender, transaction.from))
+	)
+		throw new InvalidSponsorRequestError(
+			new RpcResponse.InvalidParamsError({
+				message: transaction.from
+					? `Transaction is not signed by sender ${transaction.from}`
+					: 'Transaction is not signed',
+			}),
+			request,
+		)
+
+	return {
+		request,
+		transaction: { ...transaction, from: sender } as SponsorTransaction & {
+			from: Address.Address
+		},
+	}
+}
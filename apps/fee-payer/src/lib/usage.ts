@@ -1,11 +1,10 @@
 import { env } from 'cloudflare:workers'
 import * as IDX from 'idxs'
 import { sql } from 'kysely'
-import type { Address } from 'ox'
-import { tempo, tempoTestnet } from 'tempo.ts/chains'
+import type { Address, Hex } from 'ox'
 import { Actions, Addresses } from 'tempo.ts/viem'
-import { createPublicClient, formatUnits, http } from 'viem'
-import { alphaUsd } from './consts.js'
+import { formatUnits } from 'viem'
+import { getClient } from './chains.js'
 
 const IS = IDX.IndexSupply.create({
 	apiKey: env.INDEXSUPPLY_API_KEY,
@@ -16,30 +15,66 @@ const QB = IDX.QueryBuilder.from(IS)
 const TRANSFER_SIGNATURE =
 	'event Transfer(address indexed from, address indexed to, uint256 tokens)'
 
+const BATCH_SIZE = 500
+
+const INTERVALS = {
+	hour: 60 * 60,
+	day: 24 * 60 * 60,
+	week: 7 * 24 * 60 * 60,
+} as const
+
+/** Unix epoch was a Thursday; weeks start on Monday. */
+const WEEK_OFFSET = 4 * 24 * 60 * 60
+
+export type UsageInterval = keyof typeof INTERVALS
+
+export type UsageParameters = {
+	/** Chain the fee payer sponsors on. */
+	chainId: number
+	/** Address of the fee payer account. */
+	feePayerAddress: Address.Address
+	/**
+	 * Fee tokens paid by the fee payer. Fee tokens are all USD-denominated with
+	 * the same decimals, so amounts are summed across them.
+	 */
+	feeTokens: readonly Address.Address[]
+	/** Optional start timestamp (inclusive). */
+	blockTimestampFrom?: number | undefined
+	/** Optional end timestamp (inclusive). */
+	blockTimestampTo?: number | undefined
+}
+
 const epochToTimestamp = (epoch: number): string =>
 	new Date(epoch * 1000).toISOString()
 
+function getFeeTokenMetadata(
+	{ chainId, feeTokens }: UsageParameters,
+	feeToken = feeTokens[0],
+) {
+	const client = getClient(chainId)
+	if (!client) throw new Error(`Unsupported chain: ${chainId}`)
+	if (!feeToken) throw new Error('No fee token')
+	return Actions.token.getMetadata(client, { token: feeToken })
+}
+
 /**
- * Fetch fee payer usage statistics from IndexSupply
- * @param feePayerAddress Address of the fee payer account
- * @param blockTimestampFrom Optional start timestamp (inclusive)
- * @param blockTimestampTo Optional end timestamp (inclusive)
- * @returns Usage statistics including fees paid, transaction count, and time range
+ * Query fee transfers from the fee payer to the fee manager.
+ * @param parameters Usage parameters
+ * @returns Query builder filtered to the fee payer's fee transfers
  */
-export async function getUsage(
-	feePayerAddress: Address.Address,
-	blockTimestampFrom?: number,
-	blockTimestampTo?: number,
-) {
-	const query = QB.withSignatures([TRANSFER_SIGNATURE])
+function feeTransfersQuery(parameters: UsageParameters) {
+	const {
+		chainId,
+		feePayerAddress,
+		feeTokens,
+		blockTimestampFrom,
+		blockTimestampTo,
+	} = parameters
+
+	return QB.withSignatures([TRANSFER_SIGNATURE])
 		.selectFrom('transfer')
-		.select((eb) => [
-			eb.fn.sum('tokens').as('total_spent'),
-			sql<number>`max(transfer.block_timestamp)`.as('ending_at'),
-			sql<number>`min(transfer.block_timestamp)`.as('starting_at'),
-			eb.fn.count('tx_hash').as('n_transactions'),
-		])
-		.where('chain', '=', tempo.id)
+		.where('chain', '=', chainId)
+		.where('address', 'in', [...feeTokens])
 		.where('from', '=', feePayerAddress)
 		.where('to', '=', Addresses.feeManager)
 		.$if(blockTimestampFrom !== undefined, (eb) =>
@@ -56,24 +91,196 @@ export async function getUsage(
 				`'${epochToTimestamp(blockTimestampTo as number)}'`,
 			),
 		)
+}
+
+/**
+ * Fetch individual fee transfers along with the sponsored transaction's sender and target.
+ * @param parameters Usage parameters
+ * @returns Fee transfers
+ */
+async function getFeeTransfers(parameters: UsageParameters) {
+	const transfers = await feeTransfersQuery(parameters)
+		.select(['tx_hash', 'tokens', 'block_timestamp'])
+		.execute()
+
+	const txsByHash = new Map<Hex.Hex, { from: string; to: string | null }>()
+	const hashes = [...new Set(transfers.map((row) => row.tx_hash))]
+	for (let index = 0; index < hashes.length; index += BATCH_SIZE) {
+		const batch = hashes.slice(index, index + BATCH_SIZE)
+		const txs = await QB.selectFrom('txs')
+			.select(['hash', 'from', 'to'])
+			.where('chain', '=', parameters.chainId)
+			.where('hash', 'in', batch)
+			.execute()
+		for (const row of txs)
+			txsByHash.set(row.hash, { from: String(row.from), to: row.to })
+	}
+
+	return transfers.map((row) => {
+		const tx = txsByHash.get(row.tx_hash)
+		return {
+			hash: row.tx_hash,
+			fee: BigInt(row.tokens),
+			timestamp: Number(row.block_timestamp),
+			sender: tx?.from ?? null,
+			target: tx?.to ?? null,
+		}
+	})
+}
+
+/**
+ * Fetch fee payer usage statistics from IndexSupply
+ * @param parameters Usage parameters
+ * @returns Usage statistics including fees paid, transaction count, and time range, in total and per fee token
+ */
+export async function getUsage(parameters: UsageParameters) {
+	const query = feeTransfersQuery(parameters)
+		.select((eb) => [
+			'address',
+			eb.fn.sum('tokens').as('total_spent'),
+			sql<number>`max(transfer.block_timestamp)`.as('ending_at'),
+			sql<number>`min(transfer.block_timestamp)`.as('starting_at'),
+			eb.fn.count('tx_hash').as('n_transactions'),
+		])
+		.groupBy('address')
 
-	const result = await query.executeTakeFirst()
+	const [results, metadata] = await Promise.all([
+		query.execute(),
+		Promise.all(
+			parameters.feeTokens.map((feeToken) =>
+				getFeeTokenMetadata(parameters, feeToken),
+			),
+		),
+	])
 
-	const feesPaid = result?.total_spent ? BigInt(result.total_spent) : 0n
-	const feeTokenMetadata = await Actions.token.getMetadata(
-		createPublicClient({
-			chain: tempoTestnet({}),
-			transport: http(),
-		}),
-		{ token: alphaUsd },
-	)
+	const feeTokens = parameters.feeTokens.map((feeToken, index) => {
+		const result = results.find(
+			(row) => String(row.address).toLowerCase() === feeToken.toLowerCase(),
+		)
+		const feeTokenMetadata = metadata[index] as (typeof metadata)[number]
+		return {
+			feeToken,
+			feesPaid: result?.total_spent ? BigInt(result.total_spent) : 0n,
+			decimals: feeTokenMetadata.decimals,
+			feeCurrency: feeTokenMetadata.currency,
+			numTransactions: result?.n_transactions
+				? Number(result.n_transactions)
+				: 0,
+			endingAt: result?.ending_at ?? null,
+			startingAt: result?.starting_at ?? null,
+		}
+	})
+
+	const used = feeTokens.filter((row) => row.numTransactions > 0)
+	const decimals = feeTokens[0]?.decimals ?? 6
 
 	return {
-		feePayerAddress,
-		feesPaid: formatUnits(feesPaid, feeTokenMetadata.decimals),
-		feeCurrency: feeTokenMetadata.currency,
-		numTransactions: result?.n_transactions ? Number(result.n_transactions) : 0,
-		endingAt: result?.ending_at ?? null,
-		startingAt: result?.starting_at ?? null,
+		feePayerAddress: parameters.feePayerAddress,
+		feesPaid: formatUnits(
+			feeTokens.reduce((total, row) => total + row.feesPaid, 0n),
+			decimals,
+		),
+		feeCurrency: feeTokens[0]?.feeCurrency ?? null,
+		numTransactions: used.reduce(
+			(total, row) => total + row.numTransactions,
+			0,
+		),
+		endingAt: used.length
+			? Math.max(...used.map((row) => Number(row.endingAt)))
+			: null,
+		startingAt: used.length
+			? Math.min(...used.map((row) => Number(row.startingAt)))
+			: null,
+		feeTokens: feeTokens.map(({ feesPaid, decimals, ...row }) => ({
+			...row,
+			feesPaid: formatUnits(feesPaid, decimals),
+		})),
+	}
+}
+
+/**
+ * Fetch fee payer usage bucketed by time interval.
+ * @param parameters Usage parameters and bucket interval
+ * @returns Fees paid and transaction count per bucket, including empty buckets
+ */
+export async function getUsageSeries(
+	parameters: UsageParameters & { interval: UsageInterval },
+) {
+	const [transfers, feeTokenMetadata] = await Promise.all([
+		feeTransfersQuery(parameters)
+			.select(['tokens', 'block_timestamp'])
+			.execute(),
+		getFeeTokenMetadata(parameters),
+	])
+
+	const size = INTERVALS[parameters.interval]
+	const offset = parameters.interval === 'week' ? WEEK_OFFSET : 0
+	const toBucket = (timestamp: number) =>
+		Math.floor((timestamp - offset) / size) * size + offset
+
+	const buckets = new Map<number, { fees: bigint; count: number }>()
+	for (const row of transfers) {
+		const bucket = toBucket(Number(row.block_timestamp))
+		const current = buckets.get(bucket) ?? { fees: 0n, count: 0 }
+		buckets.set(bucket, {
+			fees: current.fees + BigInt(row.tokens),
+			count: current.count + 1,
+		})
 	}
+
+	const keys = [...buckets.keys()]
+	if (keys.length === 0) return []
+
+	const series = []
+	for (
+		let bucket = Math.min(...keys);
+		bucket <= Math.max(...keys);
+		bucket += size
+	) {
+		const { fees, count } = buckets.get(bucket) ?? { fees: 0n, count: 0 }
+		series.push({
+			bucket,
+			feesPaid: formatUnits(fees, feeTokenMetadata.decimals),
+			feeCurrency: feeTokenMetadata.currency,
+			numTransactions: count,
+		})
+	}
+	return series
+}
+
+/**
+ * Fetch fee payer usage grouped by sponsored sender or by call target, highest spend first.
+ * @param parameters Usage parameters, grouping key and maximum number of groups
+ * @returns Fees paid and transaction count per sender or target
+ */
+export async function getUsageBreakdown(
+	parameters: UsageParameters & {
+		by: 'sender' | 'target'
+		limit?: number | undefined
+	},
+) {
+	const [transfers, feeTokenMetadata] = await Promise.all([
+		getFeeTransfers(parameters),
+		getFeeTokenMetadata(parameters),
+	])
+
+	const groups = new Map<string | null, { fees: bigint; count: number }>()
+	for (const transfer of transfers) {
+		const key = transfer[parameters.by]?.toLowerCase() ?? null
+		const current = groups.get(key) ?? { fees: 0n, count: 0 }
+		groups.set(key, {
+			fees: current.fees + transfer.fee,
+			count: current.count + 1,
+		})
+	}
+
+	return [...groups.entries()]
+		.sort(([, a], [, b]) => (b.fees > a.fees ? 1 : b.fees < a.fees ? -1 : 0))
+		.slice(0, parameters.limit)
+		.map(([address, { fees, count }]) => ({
+			address,
+			feesPaid: formatUnits(fees, feeTokenMetadata.decimals),
+			feeCurrency: feeTokenMetadata.currency,
+			numTransactions: count,
+		}))
 }
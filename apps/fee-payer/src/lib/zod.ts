@@ -0,0 +1,31 @@
+import { Address, Hex } from 'ox'
+import { parseUnits } from 'viem'
+import * as z from 'zod'
+
+export const zAddress = (opts?: { lowercase?: boolean }) =>
+	z.pipe(
+		z.string(),
+		z.transform((x) => {
+			if (opts?.lowercase) x = x.toLowerCase()
+			Address.assert(x)
+			return x
+		}),
+	)
+
+export const zHex = (opts?: { size?: number; lowercase?: boolean }) =>
+	z.pipe(
+		z.string(),
+		z.transform((x) => {
+			if (opts?.lowercase) x = x.toLowerCase()
+			Hex.assert(x)
+			if (opts?.size !== undefined && Hex.size(x) !== opts.size)
+				throw new Error('Invalid hex length')
+			return x
+		}),
+	)
+
+export const zAmount = (decimals: number) =>
+	z.pipe(
+		z.string(),
+		z.transform((x) => parseUnits(x, decimals)),
+	)
@@ -0,0 +1,8 @@
+/**
+ * Create a factory of test values: each call returns fresh defaults with the
+ * given fields overridden.
+ * @param defaults Builds the default value
+ */
+export function fixture<value extends object>(defaults: () => value) {
+	return (fields: Partial<value> = {}): value => ({ ...defaults(), ...fields })
+}
@@ -1,8 +1,26 @@
 import { env } from 'cloudflare:workers'
 import { type Context, Hono, type Next } from 'hono'
 import { cors } from 'hono/cors'
+import { authHeaders, authMiddleware } from './lib/auth.js'
+import { cacheMiddleware } from './lib/cache.js'
+import { getMetrics, meterMiddleware } from './lib/metering.js'
+import {
+	type AppEnv,
+	fetchUpstream,
+	getBinding,
+	routeMiddleware,
+	UpstreamError,
+} from './lib/routes.js'
+import { rpcMiddleware } from './lib/rpc.js'
 
-const app = new Hono()
+const app = new Hono<AppEnv>()
+
+app.onError((error, c) => {
+	if (error instanceof UpstreamError)
+		return c.json({ error: error.message }, error.status)
+	console.error(error)
+	return c.json({ error: 'Internal Server Error' }, 500)
+})
 
 app.use(
 	cors({
@@ -13,50 +31,71 @@ app.use(
 			)
 			return allowed ? origin : null
 		},
+		exposeHeaders: ['X-Cache', 'Retry-After'],
 	}),
 )
-app.use(rateLimit)
+app.get('/metrics', async (c) => {
+	const token = env.METRICS_TOKEN
+	// Metrics are only exposed when a token protects them.
+	if (!token) return c.json({ error: 'Not found' }, 404)
+	if (c.req.header('authorization') !== `Bearer ${token}`)
+		return c.json({ error: 'Unauthorized' }, 401)
+	return c.text(await getMetrics(), 200, {
+		'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+	})
+})
 
-app.all('/index-supply/*', async (c) => {
-	const apiKey = env.INDEXSUPPLY_API_KEY
-	if (!apiKey)
-		return c.json({ error: 'INDEXSUPPLY_API_KEY not configured' }, 500)
+app.use(authMiddleware)
 
-	const reqUrl = new URL(c.req.url)
-	const url = new URL(
-		`${reqUrl.pathname.replace('/index-supply', '')}${reqUrl.search}`,
-		'https://api.indexsupply.net',
-	)
+app.all(
+	'*',
+	routeMiddleware,
+	meterMiddleware,
+	rateLimit,
+	rpcMiddleware,
+	cacheMiddleware,
+	async (c) => {
+		const route = c.get('route')
 
-	url.searchParams.set('api-key', apiKey)
+		const requestHeaders = new Headers(c.req.raw.headers)
+		for (const header of authHeaders) requestHeaders.delete(header)
 
-	const response = await fetch(url, {
-		method: c.req.method,
-		headers: c.req.raw.headers,
-		body: c.req.raw.body,
-	})
+		const response = await fetchUpstream(c, {
+			method: c.req.method,
+			headers: requestHeaders,
+			// The body may already have been read to verify a signature or build a cache key.
+			body: c.req.raw.bodyUsed ? await c.req.arrayBuffer() : c.req.raw.body,
+		})
 
-	const headers = new Headers()
-	for (const header of ['content-type', 'cache-control', 'expires', 'etag']) {
-		const value = response.headers.get(header)
-		if (value) headers.set(header, value)
-	}
+		const headers = new Headers()
+		for (const header of route.responseHeaders) {
+			const value = response.headers.get(header)
+			if (value) headers.set(header, value)
+		}
 
-	return new Response(response.body, {
-		status: response.status,
-		statusText: response.statusText,
-		headers,
-	})
-})
+		return new Response(response.body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers,
+		})
+	},
+)
+
+export { QuotaCounter, UsageMeter } from './lib/metering.js'
 
 export default app
 
-/** Rate limit middleware. */
-async function rateLimit(c: Context, next: Next) {
+/**
+ * Rate limit middleware, using the rate limiter of the route.
+ * Signed requests are limited per client, others per IP, across the whole route.
+ */
+async function rateLimit(c: Context<AppEnv>, next: Next) {
+	const client = c.get('client')
 	const ip = c.req.raw.headers.get('cf-connecting-ip') || 'unknown'
-	const path = c.req.path
-	const { success } = await env.REQUESTS_RATE_LIMITER.limit({
-		key: `${ip}:${path}`,
+	const { prefix } = c.get('route')
+	const limiter = getBinding<RateLimit>(c.get('route').rateLimiter) as RateLimit
+	const { success } = await limiter.limit({
+		key: client ? `client:${client}:${prefix}` : `${ip}:${prefix}`,
 	})
 	if (!success) return c.json({ error: 'Rate limit exceeded' }, 429)
 	await next()
@@ -0,0 +1,150 @@
+import { env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import { decode, verify } from 'hono/jwt'
+import type { AppEnv } from './routes.js'
+
+/** Maximum difference in seconds between a signature timestamp and now. */
+const maxClockSkew = 300
+
+/** Headers carrying request signatures, never forwarded upstream. */
+export const authHeaders = [
+	'authorization',
+	'x-client-id',
+	'x-timestamp',
+	'x-signature',
+] as const
+
+/**
+ * Parse the JSON-encoded shared secrets of clients allowed to sign requests.
+ * @param value JSON object of client id to secret, usually from the `CLIENT_SECRETS` secret
+ * @returns Map of client id to secret
+ */
+export function parseClientSecrets(value: string | undefined) {
+	const secrets = new Map<string, string>()
+	if (!value) return secrets
+	const parsed = JSON.parse(value) as unknown
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed))
+		throw new Error('CLIENT_SECRETS must be a JSON object')
+	for (const [client, secret] of Object.entries(parsed)) {
+		if (typeof secret !== 'string' || !secret)
+			throw new Error(`CLIENT_SECRETS.${client} must be a non-empty string`)
+		secrets.set(client, secret)
+	}
+	return secrets
+}
+
+const secrets = parseClientSecrets(env.CLIENT_SECRETS)
+
+const encoder = new TextEncoder()
+
+function toHex(bytes: ArrayBuffer) {
+	return [...new Uint8Array(bytes)]
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('')
+}
+
+function fromHex(hex: string) {
+	if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return undefined
+	return new Uint8Array(
+		hex.match(/../g)?.map((byte) => Number.parseInt(byte, 16)) ?? [],
+	)
+}
+
+/**
+ * Build the string a client signs with HMAC-SHA256:
+ * `<timestamp>\n<METHOD>\n<path and query>\n<hex SHA-256 of the body>`.
+ */
+async function getSigningString(c: Context, timestamp: string) {
+	const url = new URL(c.req.url)
+	const body =
+		c.req.method === 'GET' || c.req.method === 'HEAD'
+			? new ArrayBuffer(0)
+			: await c.req.arrayBuffer()
+	const bodyHash = toHex(await crypto.subtle.digest('SHA-256', body))
+	return [
+		timestamp,
+		c.req.method,
+		`${url.pathname}${url.search}`,
+		bodyHash,
+	].join('\n')
+}
+
+/**
+ * Verify an HMAC signed request, sent with the `X-Client-Id`, `X-Timestamp`
+ * and `X-Signature` headers.
+ * @returns The client id, or `undefined` if the signature is invalid or expired
+ */
+async function verifyHmac(c: Context) {
+	const client = c.req.header('x-client-id')
+	const timestamp = c.req.header('x-timestamp')
+	const signature = fromHex(c.req.header('x-signature') ?? '')
+	const secret = client ? secrets.get(client) : undefined
+	if (!client || !timestamp || !signature || !secret) return undefined
+
+	const now = Math.floor(Date.now() / 1000)
+	if (
+		!/^\d+$/.test(timestamp) ||
+		Math.abs(now - Number(timestamp)) > maxClockSkew
+	)
+		return undefined
+
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['verify'],
+	)
+	const valid = await crypto.subtle.verify(
+		'HMAC',
+		key,
+		signature,
+		encoder.encode(await getSigningString(c, timestamp)),
+	)
+	return valid ? client : undefined
+}
+
+/**
+ * Verify an HS256 JWT sent as a bearer token. The `iss` claim names the
+ * client whose secret signed the token, and `exp` is required.
+ * @returns The client id, or `undefined` if the token is invalid or expired
+ */
+async function verifyJwt(token: string) {
+	try {
+		const { payload } = decode(token)
+		const secret =
+			typeof payload.iss === 'string' ? secrets.get(payload.iss) : undefined
+		if (!secret || payload.exp === undefined) return undefined
+		await verify(token, secret, 'HS256')
+		return payload.iss as string
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Middleware that authenticates signed requests.
+ * Requests signed with an HMAC or a JWT must carry a valid signature.
+ * Unsigned requests are rejected when `REQUIRE_SIGNED_REQUESTS` is `true`,
+ * otherwise they are only gated by CORS and the rate limit.
+ */
+export async function authMiddleware(c: Context<AppEnv>, next: Next) {
+	if (c.req.method === 'OPTIONS') return next()
+
+	const bearer = c.req.header('authorization')?.match(/^Bearer (.+)$/i)?.[1]
+	const signed =
+		bearer !== undefined || c.req.header('x-signature') !== undefined
+
+	if (!signed) {
+		if (String(env.REQUIRE_SIGNED_REQUESTS) === 'true')
+			return c.json({ error: 'Signed request required' }, 401)
+		c.set('client', undefined)
+		return next()
+	}
+
+	const client = bearer ? await verifyJwt(bearer) : await verifyHmac(c)
+	if (!client) return c.json({ error: 'Invalid request signature' }, 401)
+
+	c.set('client', client)
+	await next()
+}
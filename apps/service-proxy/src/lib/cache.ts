@@ -0,0 +1,122 @@
+import type { Context, Next } from 'hono'
+import type { AppEnv, Route } from './routes.js'
+
+/**
+ * Collapse whitespace so formatting differences in SQL and event signatures
+ * share a cache entry.
+ */
+function normalizeSql(value: unknown) {
+	return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : value
+}
+
+/**
+ * Normalize a JSON POST body. Batches of Index Supply queries have their SQL
+ * and signatures normalized and their cursor made explicit.
+ * @returns The normalized body, or `undefined` if the body is not JSON
+ */
+function normalizeBody(body: string) {
+	try {
+		const value = JSON.parse(body) as unknown
+		if (!Array.isArray(value)) return value
+		return value.map((query: Record<string, unknown>) =>
+			query && typeof query.query === 'string'
+				? {
+						query: normalizeSql(query.query),
+						signatures: Array.isArray(query.signatures)
+							? query.signatures.map(normalizeSql)
+							: [],
+						cursor: query.cursor ?? null,
+					}
+				: query,
+		)
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Get the cache key of a request: the path, the sorted query parameters and
+ * the normalized body, e.g. Index Supply queries with their SQL, signatures and cursor.
+ * @param c Hono context
+ * @param route Route of the request
+ * @returns A synthetic `GET` request to store the response under, or `undefined` if the request is not cacheable
+ */
+export async function getCacheKey(c: Context, route: Route) {
+	const url = new URL(c.req.url)
+	// Only listed endpoints are cached, e.g. to leave out streaming live queries.
+	const paths = route.cache?.paths
+	if (paths && !paths.some((path) => url.pathname.endsWith(path)))
+		return undefined
+	if (c.req.method !== 'GET' && c.req.method !== 'POST') return undefined
+
+	const params = [...url.searchParams]
+		.filter(
+			([name]) =>
+				route.secret?.strategy !== 'query' || name !== secretParam(route),
+		)
+		.map(([name, value]): [string, unknown] => [
+			name,
+			name === 'query' || name === 'signatures' ? normalizeSql(value) : value,
+		])
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+
+	const body =
+		c.req.method === 'POST' ? normalizeBody(await c.req.text()) : undefined
+	if (c.req.method === 'POST' && !body) return undefined
+
+	return toCacheRequest(c, { path: url.pathname, params, body })
+}
+
+/**
+ * Build the synthetic `GET` request a response is stored under in the Cache API.
+ * @param c Hono context
+ * @param key JSON-serializable value identifying the response
+ */
+export async function toCacheRequest(c: Context, key: unknown) {
+	const hash = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(JSON.stringify(key)),
+	)
+	const id = [...new Uint8Array(hash)]
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('')
+	return new Request(new URL(`/__cache/${id}`, c.req.url))
+}
+
+/** Name of the query parameter the route's secret is passed in. */
+function secretParam(route: Route) {
+	return route.secret?.key ?? 'api-key'
+}
+
+/**
+ * Middleware that caches successful responses of routes with caching enabled,
+ * so identical requests only hit the upstream once per TTL.
+ * Responses carry an `X-Cache` header of `HIT` or `MISS`.
+ */
+export async function cacheMiddleware(c: Context<AppEnv>, next: Next) {
+	const route = c.get('route')
+	const ttl = route.cache?.ttl
+	const key = ttl ? await getCacheKey(c, route) : undefined
+	if (!key) return next()
+
+	const cache = caches.default
+	const cached = await cache.match(key)
+	if (cached) {
+		const response = new Response(cached.body, cached)
+		response.headers.set('X-Cache', 'HIT')
+		return response
+	}
+
+	await next()
+
+	if (!c.res.ok) return
+	const response = new Response(c.res.body, c.res)
+	response.headers.set('X-Cache', 'MISS')
+	c.res = undefined
+	c.res = response
+
+	const entry = response.clone()
+	entry.headers.set('Cache-Control', `public, max-age=${ttl}`)
+	entry.headers.delete('Set-Cookie')
+	c.executionCtx.waitUntil(cache.put(key, entry))
+}
@@ -0,0 +1,457 @@
+import { DurableObject, env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import * as z from 'zod'
+import type { AppEnv } from './routes.js'
+
+/**
+ * Daily request quotas.
+ */
+export const QuotaConfig = z.object({
+	/** Daily requests of signed clients without their own quota. Unlimited if not set. */
+	default: z.optional(z.number().int().positive()),
+	/** Daily requests of each IP address making unsigned requests from origins without their own quota. */
+	anonymous: z.prefault(z.number().int().positive(), 100_000),
+	/** Daily requests by signed client id. */
+	clients: z.prefault(z.record(z.string(), z.number().int().positive()), {}),
+	/** Daily requests of each IP address by origin, e.g. `https://explore.tempo.xyz`. */
+	origins: z.prefault(z.record(z.string(), z.number().int().positive()), {}),
+})
+export type QuotaConfig = z.output<typeof QuotaConfig>
+
+/**
+ * Parse the daily request quotas.
+ * @param value JSON string or object, usually from the `QUOTAS` variable
+ * @returns The parsed quotas
+ */
+export function parseQuotas(value: unknown) {
+	return QuotaConfig.parse(
+		typeof value === 'string' ? JSON.parse(value) : (value ?? {}),
+	)
+}
+
+const quotas = parseQuotas(env.QUOTAS)
+
+/** Usage of one consumer on one route with one response status. */
+export type Usage = {
+	consumer: string
+	route: string
+	status: number
+	/** Response body bytes sent to the consumer. */
+	bytes: number
+	/** Requests sent upstream to answer the request. */
+	upstreamRequests: number
+	/** Total latency of the upstream requests, in seconds. */
+	upstreamSeconds: number
+}
+
+/** Usage counters summed over all requests. */
+export type UsageTotals = Usage & { requests: number }
+
+/** Requests counted against a consumer's quota by its busiest bucket. */
+export type QuotaUsage = {
+	consumer: string
+	requests: number
+}
+
+/**
+ * Storage for usage counters and daily quotas.
+ */
+export type MeterStore = {
+	/**
+	 * Count a request against the daily quota of a bucket.
+	 * @returns The requests counted today including this one, or `undefined` if the quota is exhausted, in which case the request is not counted
+	 */
+	consume: (
+		bucket: string,
+		day: string,
+		limit: number,
+	) => Promise<number | undefined>
+	/** Add a served request to the usage counters. */
+	record: (usage: Usage) => Promise<void>
+	/** Report the requests counted in one of a consumer's buckets. */
+	recordQuota: (usage: QuotaUsage & { day: string }) => Promise<void>
+	/** Read the usage counters and the quota usage of a day. */
+	snapshot: (
+		day: string,
+	) => Promise<{ usage: UsageTotals[]; quotas: QuotaUsage[] }>
+}
+
+/**
+ * Meter store backed by one SQLite {@link QuotaCounter} Durable Object per
+ * quota bucket, and a single {@link UsageMeter} Durable Object for the usage
+ * counters, written off the request path.
+ * @param meters Usage meter Durable Object namespace binding
+ * @param counters Quota counter Durable Object namespace binding
+ */
+export function durableObjectMeterStore(
+	meters: DurableObjectNamespace<UsageMeter>,
+	counters: DurableObjectNamespace<QuotaCounter>,
+): MeterStore {
+	const meter = () => meters.getByName('global')
+	return {
+		consume: (bucket, day, limit) =>
+			counters.getByName(bucket).consume(day, limit),
+		record: (usage) => meter().record(usage),
+		recordQuota: (usage) => meter().recordQuota(usage),
+		snapshot: (day) => meter().snapshot(day),
+	}
+}
+
+/**
+ * Durable Object counting the daily requests of one quota bucket.
+ * Requests are processed one at a time, so quota checks are atomic, and only
+ * requests of the same bucket wait on each other.
+ */
+export class QuotaCounter extends DurableObject<Env> {
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env)
+		this.ctx.storage.sql.exec(`
+			CREATE TABLE IF NOT EXISTS quota (
+				day TEXT PRIMARY KEY,
+				requests INTEGER NOT NULL
+			);
+		`)
+	}
+
+	async consume(day: string, limit: number) {
+		this.ctx.storage.sql.exec('DELETE FROM quota WHERE day < ?', day)
+		const [row] = this.ctx.storage.sql
+			.exec<{ requests: number }>(
+				'SELECT requests FROM quota WHERE day = ?',
+				day,
+			)
+			.toArray()
+		const requests = (row?.requests ?? 0) + 1
+		if (requests > limit) return undefined
+		this.ctx.storage.sql.exec(
+			`INSERT INTO quota (day, requests) VALUES (?, 1)
+			ON CONFLICT (day) DO UPDATE SET requests = requests + 1`,
+			day,
+		)
+		return requests
+	}
+}
+
+/**
+ * Durable Object holding usage counters and the daily quota usage of each
+ * consumer's busiest bucket.
+ */
+export class UsageMeter extends DurableObject<Env> {
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env)
+		this.ctx.storage.sql.exec(`
+			CREATE TABLE IF NOT EXISTS usage (
+				consumer TEXT NOT NULL,
+				route TEXT NOT NULL,
+				status INTEGER NOT NULL,
+				requests INTEGER NOT NULL,
+				bytes INTEGER NOT NULL,
+				upstream_requests INTEGER NOT NULL,
+				upstream_seconds REAL NOT NULL,
+				PRIMARY KEY (consumer, route, status)
+			);
+			CREATE TABLE IF NOT EXISTS quotas (
+				day TEXT NOT NULL,
+				consumer TEXT NOT NULL,
+				requests INTEGER NOT NULL,
+				PRIMARY KEY (day, consumer)
+			);
+		`)
+	}
+
+	async recordQuota(usage: QuotaUsage & { day: string }) {
+		this.ctx.storage.sql.exec('DELETE FROM quotas WHERE day < ?', usage.day)
+		this.ctx.storage.sql.exec(
+			`INSERT INTO quotas (day, consumer, requests) VALUES (?, ?, ?)
+			ON CONFLICT (day, consumer) DO UPDATE SET
+				requests = max(requests, excluded.requests)`,
+			usage.day,
+			usage.consumer,
+			usage.requests,
+		)
+	}
+
+	async record(usage: Usage) {
+		this.ctx.storage.sql.exec(
+			`INSERT INTO usage (consumer, route, status, requests, bytes, upstream_requests, upstream_seconds)
+			VALUES (?, ?, ?, 1, ?, ?, ?)
+			ON CONFLICT (consumer, route, status) DO UPDATE SET
+				requests = requests + 1,
+				bytes = bytes + excluded.bytes,
+				upstream_requests = upstream_requests + excluded.upstream_requests,
+				upstream_seconds = upstream_seconds + excluded.upstream_seconds`,
+			usage.consumer,
+			usage.route,
+			usage.status,
+			usage.bytes,
+			usage.upstreamRequests,
+			usage.upstreamSeconds,
+		)
+	}
+
+	async snapshot(day: string) {
+		const usage = this.ctx.storage.sql
+			.exec<{
+				consumer: string
+				route: string
+				status: number
+				requests: number
+				bytes: number
+				upstream_requests: number
+				upstream_seconds: number
+			}>('SELECT * FROM usage ORDER BY consumer, route, status')
+			.toArray()
+			.map(
+				(row): UsageTotals => ({
+					consumer: row.consumer,
+					route: row.route,
+					status: row.status,
+					requests: row.requests,
+					bytes: row.bytes,
+					upstreamRequests: row.upstream_requests,
+					upstreamSeconds: row.upstream_seconds,
+				}),
+			)
+		const quotas = this.ctx.storage.sql
+			.exec<QuotaUsage>(
+				'SELECT consumer, requests FROM quotas WHERE day = ? ORDER BY consumer',
+				day,
+			)
+			.toArray()
+		return { usage, quotas }
+	}
+}
+
+const store = durableObjectMeterStore(env.UsageMeter, env.QuotaCounter)
+
+/**
+ * Get the consumer a request is metered as: the signed client, else the
+ * `Origin` of browser requests if it has its own quota, else `anonymous`.
+ * Other origins are not metered on their own, as anyone can make them up.
+ */
+export function getConsumer(c: Context<AppEnv>) {
+	const client = c.get('client')
+	if (client) return `client:${client}`
+	const origin = c.req.header('origin')
+	if (origin && Object.hasOwn(quotas.origins, origin)) return `origin:${origin}`
+	return 'anonymous'
+}
+
+/**
+ * Get the bucket a request is counted in against its consumer's quota: the
+ * signed client, else the consumer and the IP address of the request, as
+ * unsigned consumers are shared by everyone and their `Origin` can be made up.
+ */
+export function getQuotaBucket(c: Context<AppEnv>, consumer: string) {
+	if (consumer.startsWith('client:')) return consumer
+	const ip = c.req.header('cf-connecting-ip') || 'unknown'
+	return `${consumer}:${ip}`
+}
+
+/**
+ * Get the daily request quota of a consumer, for each of its buckets.
+ * @returns The quota, or `undefined` if the consumer is unlimited
+ */
+export function getQuota(consumer: string) {
+	if (consumer.startsWith('client:'))
+		return quotas.clients[consumer.slice('client:'.length)] ?? quotas.default
+	if (consumer.startsWith('origin:'))
+		return quotas.origins[consumer.slice('origin:'.length)]
+	return quotas.anonymous
+}
+
+/** Current UTC day, e.g. `2025-01-31`. */
+function today() {
+	return new Date().toISOString().slice(0, 10)
+}
+
+/** Seconds until the daily quotas reset at midnight UTC. */
+function secondsUntilReset() {
+	return 24 * 60 * 60 - (Math.floor(Date.now() / 1000) % (24 * 60 * 60))
+}
+
+/**
+ * Middleware that meters requests per consumer and route: requests by
+ * response status, response bytes, and upstream requests and latency.
+ * Consumers over their daily quota are answered `429` with `Retry-After`.
+ */
+export async function meterMiddleware(c: Context<AppEnv>, next: Next) {
+	const consumer = getConsumer(c)
+	const route = c.get('route').prefix
+
+	const quota = getQuota(consumer)
+	const day = today()
+	const requests =
+		quota === undefined
+			? undefined
+			: await store.consume(getQuotaBucket(c, consumer), day, quota)
+	if (quota !== undefined && requests === undefined) {
+		c.executionCtx.waitUntil(
+			store.record({
+				consumer,
+				route,
+				status: 429,
+				bytes: 0,
+				upstreamRequests: 0,
+				upstreamSeconds: 0,
+			}),
+		)
+		return c.json({ error: 'Daily quota exceeded' }, 429, {
+			'Retry-After': secondsUntilReset().toString(),
+		})
+	}
+
+	if (requests !== undefined)
+		c.executionCtx.waitUntil(store.recordQuota({ consumer, day, requests }))
+
+	await next()
+
+	const response = c.res
+	const record = (bytes: number) => {
+		const upstream = c.get('upstream')
+		return store.record({
+			consumer,
+			route,
+			status: response.status,
+			bytes,
+			upstreamRequests: upstream?.requests ?? 0,
+			upstreamSeconds: upstream?.seconds ?? 0,
+		})
+	}
+	if (!response.body) {
+		c.executionCtx.waitUntil(record(0))
+		return
+	}
+
+	// Count the body bytes as they are streamed to the consumer, until the
+	// body ends, fails or is cancelled by the consumer.
+	let bytes = 0
+	let finish = () => {}
+	const finished = new Promise<void>((resolve) => {
+		finish = resolve
+	})
+	const reader = response.body.getReader()
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read()
+				if (done) {
+					finish()
+					controller.close()
+					return
+				}
+				bytes += value.byteLength
+				controller.enqueue(value)
+			} catch (error) {
+				finish()
+				controller.error(error)
+			}
+		},
+		cancel(reason) {
+			finish()
+			return reader.cancel(reason)
+		},
+	})
+	c.res = undefined
+	c.res = new Response(body, response)
+	c.executionCtx.waitUntil(finished.then(() => record(bytes)))
+}
+
+function escapeLabel(value: string | number) {
+	return String(value)
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, '\\n')
+}
+
+function labels(values: Record<string, string | number>) {
+	return `{${Object.entries(values)
+		.map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+		.join(',')}}`
+}
+
+/**
+ * Render the usage counters and today's quota usage in the Prometheus text format.
+ */
+export async function getMetrics() {
+	const { usage, quotas: quotaUsage } = await store.snapshot(today())
+
+	const metrics: {
+		name: string
+		type: 'counter' | 'gauge' | 'summary'
+		help: string
+		samples: [string, number][]
+	}[] = [
+		{
+			name: 'service_proxy_requests_total',
+			type: 'counter',
+			help: 'Requests served, by consumer, route and status.',
+			samples: usage.map((row) => [
+				labels({
+					consumer: row.consumer,
+					route: row.route,
+					status: row.status,
+				}),
+				row.requests,
+			]),
+		},
+		{
+			name: 'service_proxy_response_bytes_total',
+			type: 'counter',
+			help: 'Response body bytes sent, by consumer, route and status.',
+			samples: usage.map((row) => [
+				labels({
+					consumer: row.consumer,
+					route: row.route,
+					status: row.status,
+				}),
+				row.bytes,
+			]),
+		},
+		{
+			name: 'service_proxy_upstream_latency_seconds',
+			type: 'summary',
+			help: 'Latency of upstream requests, by consumer, route and status.',
+			samples: usage.flatMap((row): [string, number][] => {
+				const values = labels({
+					consumer: row.consumer,
+					route: row.route,
+					status: row.status,
+				})
+				return [
+					[`_sum${values}`, row.upstreamSeconds],
+					[`_count${values}`, row.upstreamRequests],
+				]
+			}),
+		},
+		{
+			name: 'service_proxy_quota_used',
+			type: 'gauge',
+			help: "Requests counted against today's quota by the busiest bucket, by consumer.",
+			samples: quotaUsage.map((row) => [
+				labels({ consumer: row.consumer }),
+				row.requests,
+			]),
+		},
+		{
+			name: 'service_proxy_quota_limit',
+			type: 'gauge',
+			help: 'Daily request quota of each bucket, by consumer.',
+			samples: quotaUsage.flatMap((row): [string, number][] => {
+				const quota = getQuota(row.consumer)
+				return quota === undefined
+					? []
+					: [[labels({ consumer: row.consumer }), quota]]
+			}),
+		},
+	]
+
+	return metrics
+		.flatMap(({ name, type, help, samples }) => [
+			`# HELP ${name} ${help}`,
+			`# TYPE ${name} ${type}`,
+			...samples.map(([suffix, value]) => `${name}${suffix} ${value}`),
+		])
+		.join('\n')
+		.concat('\n')
+}
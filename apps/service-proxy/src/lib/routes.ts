@@ -0,0 +1,254 @@
+import { env } from 'cloudflare:workers'
+import type { Context, Next } from 'hono'
+import * as z from 'zod'
+
+/** Ways to pass an upstream secret. */
+export const secretStrategies = ['query', 'header', 'bearer'] as const
+
+/** Response headers forwarded to clients when a route does not list its own. */
+const defaultResponseHeaders = [
+	'content-type',
+	'cache-control',
+	'expires',
+	'etag',
+]
+
+/**
+ * An upstream served under a path prefix.
+ */
+export const Route = z.object({
+	/** Path prefix of the route, e.g. `/index-supply`. */
+	prefix: z.string().regex(/^\/[^/]/),
+	/** Base URL the remaining path and query are appended to. */
+	upstream: z.url(),
+	/** Secret injected into upstream requests. */
+	secret: z.optional(
+		z.object({
+			/** Name of the Worker secret holding the value. */
+			name: z.string(),
+			/** How the secret is passed to the upstream. */
+			strategy: z.enum(secretStrategies),
+			/** Query parameter or header name, for the `query` and `header` strategies. */
+			key: z.optional(z.string()),
+		}),
+	),
+	/** Upstream response headers forwarded to clients. */
+	responseHeaders: z.prefault(
+		z.array(z.string().toLowerCase()),
+		defaultResponseHeaders,
+	),
+	/** Milliseconds to wait for the upstream before answering `504`. */
+	timeout: z.prefault(z.number().int().positive(), 30_000),
+	/** Name of the rate limit binding applied to the route. */
+	rateLimiter: z.prefault(z.string(), 'REQUESTS_RATE_LIMITER'),
+	/** JSON-RPC proxy mode of the route, disabled if not set. */
+	rpc: z.optional(
+		z.object({
+			/** Methods unsigned clients may call. A trailing `*` matches any suffix. */
+			publicMethods: z.prefault(z.array(z.string()), ['*']),
+			/** Methods signed clients may call. A trailing `*` matches any suffix. */
+			methods: z.prefault(z.array(z.string()), ['*']),
+			/** Methods nobody may call, checked before the allow-lists. */
+			deny: z.prefault(z.array(z.string()), []),
+			/** Seconds immutable results, e.g. receipts of finalized blocks, are cached. `0` disables caching. */
+			cacheTtl: z.prefault(z.number().int().nonnegative(), 24 * 60 * 60),
+		}),
+	),
+	/** Response caching of the route, disabled if not set. */
+	cache: z.optional(
+		z.object({
+			/** Seconds a response is cached. */
+			ttl: z.number().int().positive(),
+			/** Path suffixes of the cacheable endpoints, e.g. `/query`. All paths are cached if not set. */
+			paths: z.optional(z.array(z.string())),
+		}),
+	),
+})
+export type Route = z.output<typeof Route>
+
+export type AppEnv = {
+	Variables: {
+		/** Id of the client that signed the request, if it was signed. */
+		client: string | undefined
+		/** Route matching the request path. */
+		route: Route
+		/** Requests sent to the route's upstream and their total latency in seconds. */
+		upstream: { requests: number; seconds: number } | undefined
+	}
+}
+
+/**
+ * Parse the route table.
+ * @param value JSON string or array, usually from the `ROUTES` variable
+ * @returns The parsed routes, longest prefix first, or the Index Supply route if no routes are configured
+ */
+export function parseRoutes(value: unknown): Route[] {
+	const routes = z
+		.array(Route)
+		.min(1)
+		.parse(
+			typeof value === 'string'
+				? JSON.parse(value)
+				: (value ?? [
+						{
+							prefix: '/index-supply',
+							upstream: 'https://api.indexsupply.net',
+							secret: {
+								name: 'INDEXSUPPLY_API_KEY',
+								strategy: 'query',
+								key: 'api-key',
+							},
+						},
+					]),
+		)
+	for (const route of routes)
+		if (!getBinding<RateLimit>(route.rateLimiter))
+			throw new Error(
+				`Route ${route.prefix} uses unknown rate limiter ${route.rateLimiter}`,
+			)
+	return routes.sort((a, b) => b.prefix.length - a.prefix.length)
+}
+
+/**
+ * Get a binding, variable or secret of the Worker by name.
+ */
+export function getBinding<T>(name: string) {
+	return (env as unknown as Record<string, T | undefined>)[name]
+}
+
+export const routes = parseRoutes(env.ROUTES)
+
+/**
+ * Find the route serving a path.
+ * @param path Request path
+ * @returns The route with the longest matching prefix, or `undefined` if no route matches
+ */
+export function matchRoute(path: string) {
+	return routes.find(
+		(route) => path === route.prefix || path.startsWith(`${route.prefix}/`),
+	)
+}
+
+/**
+ * Build the upstream request URL: the path after the route prefix and the
+ * query are appended to the upstream URL.
+ * @param route Route of the request
+ * @param url Request URL
+ */
+function getUpstreamUrl(route: Route, url: URL) {
+	const upstream = new URL(route.upstream)
+	upstream.pathname = `${upstream.pathname.replace(/\/$/, '')}${url.pathname.slice(route.prefix.length)}`
+	upstream.search = url.search
+	return upstream
+}
+
+/**
+ * Inject the route's secret into an upstream request.
+ * @param route Route of the request
+ * @param url Upstream URL, modified for the `query` strategy
+ * @param headers Upstream request headers, modified for the `header` and `bearer` strategies
+ * @returns `false` if the secret is not configured
+ */
+function injectSecret(route: Route, url: URL, headers: Headers) {
+	if (!route.secret) return true
+	const value = getBinding<string>(route.secret.name)
+	if (!value) return false
+
+	const { strategy, key } = route.secret
+	if (strategy === 'query') url.searchParams.set(key ?? 'api-key', value)
+	if (strategy === 'header') headers.set(key ?? 'X-Api-Key', value)
+	if (strategy === 'bearer') headers.set('Authorization', `Bearer ${value}`)
+	return true
+}
+
+/**
+ * Error thrown when the upstream of a route cannot answer.
+ * Answered with a JSON error and the status.
+ */
+export class UpstreamError extends Error {
+	override readonly name = 'UpstreamError'
+
+	constructor(
+		message: string,
+		readonly status: 500 | 502 | 504,
+	) {
+		super(message)
+	}
+}
+
+/**
+ * Send a request to the upstream of a route, with the route's secret injected
+ * and its timeout applied. Unlike {@link fetchUpstream}, it does not depend on
+ * the context of the request it is made for, so its result can be shared
+ * between requests.
+ * @param route Route of the request
+ * @param url Request URL, its path and query are forwarded
+ * @param init Method, headers and body of the upstream request
+ * @returns The upstream response
+ * @throws {UpstreamError} If the secret is not configured, or the upstream times out or cannot be reached
+ */
+export async function requestUpstream(
+	route: Route,
+	url: URL,
+	init: { method: string; headers: Headers; body?: BodyInit | null },
+) {
+	const upstreamUrl = getUpstreamUrl(route, url)
+	if (!injectSecret(route, upstreamUrl, init.headers))
+		throw new UpstreamError(`${route.secret?.name} not configured`, 500)
+
+	try {
+		return await fetch(upstreamUrl, {
+			...init,
+			signal: AbortSignal.timeout(route.timeout),
+		})
+	} catch (error) {
+		if ((error as Error).name === 'TimeoutError')
+			throw new UpstreamError('Upstream timed out', 504)
+		throw new UpstreamError('Upstream unavailable', 502)
+	}
+}
+
+/**
+ * Add an upstream request to the `upstream` context variable.
+ * @param c Hono context
+ * @param start `performance.now()` when the upstream request was sent
+ */
+export function recordUpstream(c: Context<AppEnv>, start: number) {
+	const upstream = c.get('upstream') ?? { requests: 0, seconds: 0 }
+	c.set('upstream', {
+		requests: upstream.requests + 1,
+		seconds: upstream.seconds + (performance.now() - start) / 1000,
+	})
+}
+
+/**
+ * Send a request to the upstream of the request's route, see
+ * {@link requestUpstream}. The number of upstream requests and their latency
+ * are added to the `upstream` context variable.
+ * @param c Hono context
+ * @param init Method, headers and body of the upstream request
+ * @returns The upstream response
+ * @throws {UpstreamError} If the secret is not configured, or the upstream times out or cannot be reached
+ */
+export async function fetchUpstream(
+	c: Context<AppEnv>,
+	init: { method: string; headers: Headers; body?: BodyInit | null },
+) {
+	const start = performance.now()
+	try {
+		return await requestUpstream(c.get('route'), new URL(c.req.url), init)
+	} finally {
+		recordUpstream(c, start)
+	}
+}
+
+/**
+ * Middleware that selects the route of the request path.
+ * Returns 404 if no route matches.
+ */
+export async function routeMiddleware(c: Context<AppEnv>, next: Next) {
+	const route = matchRoute(c.req.path)
+	if (!route) return c.json({ error: 'Not found' }, 404)
+	c.set('route', route)
+	await next()
+}
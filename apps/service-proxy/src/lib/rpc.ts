@@ -0,0 +1,323 @@
+import type { Context, Next } from 'hono'
+import { toCacheRequest } from './cache.js'
+import {
+	type AppEnv,
+	type Route,
+	recordUpstream,
+	requestUpstream,
+} from './routes.js'
+
+type RpcConfig = NonNullable<Route['rpc']>
+
+type RpcRequest = {
+	jsonrpc: '2.0'
+	id?: number | string | null
+	method: string
+	params?: unknown
+}
+
+type RpcError = {
+	code: number
+	message: string
+	data?: unknown
+}
+
+/** Outcome of a JSON-RPC request, without its envelope. */
+type RpcOutcome = { result: unknown } | { error: RpcError }
+
+/** Fields of a block, transaction or receipt used to check whether it is final. */
+type RpcResult = { number?: string; blockNumber?: string | null } | null
+
+/**
+ * Requests sent upstream and not answered yet, to coalesce identical requests
+ * across clients.
+ */
+const inflight = new Map<string, Promise<RpcOutcome>>()
+
+/** Latest finalized block number of each route, refreshed every few seconds. */
+const finalizedBlocks = new Map<
+	string,
+	{ number: Promise<bigint>; expiresAt: number }
+>()
+
+/**
+ * Methods whose results never change once their block is finalized, with the
+ * check deciding whether a result can be cached.
+ */
+const immutableMethods: Record<
+	string,
+	(
+		request: RpcRequest,
+		result: RpcResult,
+		isFinalized: (blockNumber: string | null | undefined) => Promise<boolean>,
+	) => boolean | Promise<boolean>
+> = {
+	eth_chainId: () => true,
+	eth_getBlockByHash: (_, result, isFinalized) => isFinalized(result?.number),
+	// Block tags like `latest` point to different blocks over time.
+	eth_getBlockByNumber: (request, result, isFinalized) =>
+		/^0x[0-9a-f]+$/i.test(String((request.params as unknown[])?.[0])) &&
+		isFinalized(result?.number),
+	eth_getTransactionByHash: (_, result, isFinalized) =>
+		isFinalized(result?.blockNumber),
+	eth_getTransactionReceipt: (_, result, isFinalized) =>
+		isFinalized(result?.blockNumber),
+}
+
+/** JSON-RPC response from an upstream. */
+type UpstreamResponse = RpcOutcome & { id?: number | null }
+
+function rpcError(code: number, message: string): RpcOutcome {
+	return { error: { code, message } }
+}
+
+/** Strip the envelope of an upstream response. */
+function toOutcome(response: UpstreamResponse): RpcOutcome {
+	if ('error' in response) return { error: response.error }
+	return { result: response.result }
+}
+
+/**
+ * Checks if a method matches an allow-list or deny-list pattern.
+ * A trailing `*` matches any suffix, e.g. `debug_*`.
+ */
+function matchesMethod(method: string) {
+	return (pattern: string) =>
+		pattern.endsWith('*')
+			? method.startsWith(pattern.slice(0, -1))
+			: method === pattern
+}
+
+/**
+ * Check whether a client may call a method.
+ * @param config JSON-RPC configuration of the route
+ * @param method Method called
+ * @param client Id of the client that signed the request, `undefined` for public clients
+ */
+function isAllowed(config: RpcConfig, method: string, client?: string) {
+	if (config.deny.some(matchesMethod(method))) return false
+	const methods = client ? config.methods : config.publicMethods
+	return methods.some(matchesMethod(method))
+}
+
+function isRequest(value: unknown): value is RpcRequest {
+	if (!value || typeof value !== 'object') return false
+	const request = value as Record<string, unknown>
+	return request.jsonrpc === '2.0' && typeof request.method === 'string'
+}
+
+/**
+ * Send JSON-RPC requests to the upstream of a route, batched if there are several.
+ * Independent of the request's context, so outcomes can be shared between requests.
+ * @param route Route of the requests
+ * @param url Request URL
+ * @returns The outcome of each request, in order
+ */
+async function send(
+	route: Route,
+	url: URL,
+	requests: RpcRequest[],
+): Promise<RpcOutcome[]> {
+	const body = requests.map(({ method, params }, id) => ({
+		jsonrpc: '2.0',
+		id,
+		method,
+		params,
+	}))
+	try {
+		const response = await requestUpstream(route, url, {
+			method: 'POST',
+			headers: new Headers({ 'Content-Type': 'application/json' }),
+			body: JSON.stringify(body.length === 1 ? body[0] : body),
+		})
+		const json = (await response.json()) as
+			| UpstreamResponse
+			| UpstreamResponse[]
+		if (!Array.isArray(json))
+			// A single response to a batch is an error for the whole batch.
+			return requests.map(() =>
+				requests.length === 1 || 'error' in json
+					? toOutcome(json)
+					: rpcError(-32603, 'Missing response'),
+			)
+		return requests.map((_, id) => {
+			const response = json.find((response) => response.id === id)
+			return response
+				? toOutcome(response)
+				: rpcError(-32603, 'Missing response')
+		})
+	} catch (error) {
+		return requests.map(() => rpcError(-32603, (error as Error).message))
+	}
+}
+
+/**
+ * Get the latest finalized block number of a route's chain.
+ */
+function getFinalizedBlockNumber(route: Route, url: URL) {
+	const cached = finalizedBlocks.get(route.prefix)
+	if (cached && cached.expiresAt > Date.now()) return cached.number
+
+	const number = send(route, url, [
+		{
+			jsonrpc: '2.0',
+			method: 'eth_getBlockByNumber',
+			params: ['finalized', false],
+		},
+	]).then(([outcome]) => {
+		const block =
+			outcome && 'result' in outcome ? (outcome.result as RpcResult) : null
+		if (!block?.number) throw new Error('Finalized block unavailable')
+		return BigInt(block.number)
+	})
+	number.catch(() => finalizedBlocks.delete(route.prefix))
+	finalizedBlocks.set(route.prefix, { number, expiresAt: Date.now() + 5_000 })
+	return number
+}
+
+/**
+ * Cache the result of an immutable request if its block is finalized.
+ */
+async function cacheResult(
+	route: Route,
+	url: URL,
+	request: RpcRequest,
+	key: Request,
+	outcome: RpcOutcome,
+) {
+	const ttl = route.rpc?.cacheTtl
+	const isImmutable = immutableMethods[request.method]
+	if (!ttl || !isImmutable || !('result' in outcome)) return
+
+	const cacheable = await isImmutable(
+		request,
+		outcome.result as RpcResult,
+		async (blockNumber) =>
+			!!blockNumber &&
+			BigInt(blockNumber) <= (await getFinalizedBlockNumber(route, url)),
+	)
+	if (!cacheable) return
+	await caches.default.put(
+		key,
+		new Response(JSON.stringify(outcome), {
+			headers: {
+				'Content-Type': 'application/json',
+				'Cache-Control': `public, max-age=${ttl}`,
+			},
+		}),
+	)
+}
+
+/**
+ * Answer JSON-RPC requests: check the allow-lists, serve immutable results
+ * from the cache, coalesce identical in-flight requests and send the rest
+ * upstream in one batch.
+ * The request that sends a batch keeps it running with `waitUntil`, so the
+ * requests coalesced with it are answered even if it is cancelled.
+ * @returns The outcome of each request, in order
+ */
+async function execute(
+	c: Context<AppEnv>,
+	route: Route,
+	config: RpcConfig,
+	requests: unknown[],
+) {
+	const lookups = await Promise.all(
+		requests.map(async (request) => {
+			if (!isRequest(request))
+				return { outcome: rpcError(-32600, 'Invalid request') }
+			if (!isAllowed(config, request.method, c.get('client')))
+				return {
+					outcome: rpcError(-32601, `Method ${request.method} is not allowed`),
+				}
+
+			const id = [route.prefix, request.method, request.params ?? []]
+			const key = await toCacheRequest(c, id)
+			if (config.cacheTtl && immutableMethods[request.method]) {
+				const cached = await caches.default.match(key)
+				if (cached) return { outcome: (await cached.json()) as RpcOutcome }
+			}
+			return { request, key, id: JSON.stringify(id) }
+		}),
+	)
+
+	const url = new URL(c.req.url)
+	const unsent: {
+		request: RpcRequest
+		resolve: (outcome: RpcOutcome) => void
+	}[] = []
+	const outcomes = lookups.map((lookup) => {
+		if (!lookup.request) return Promise.resolve(lookup.outcome)
+		const { request, key, id } = lookup
+
+		let outcome = inflight.get(id)
+		if (!outcome) {
+			outcome = new Promise<RpcOutcome>((resolve) =>
+				unsent.push({ request, resolve }),
+			)
+			outcome.then((outcome) => {
+				inflight.delete(id)
+				c.executionCtx.waitUntil(
+					cacheResult(route, url, request, key, outcome).catch(() => {}),
+				)
+			})
+			inflight.set(id, outcome)
+		}
+		return outcome
+	})
+
+	if (unsent.length > 0) {
+		const start = performance.now()
+		const sent = send(
+			route,
+			url,
+			unsent.map(({ request }) => request),
+		).then((sent) => {
+			for (const [index, { resolve }] of unsent.entries())
+				resolve(sent[index] as RpcOutcome)
+		})
+		c.executionCtx.waitUntil(sent)
+		await sent
+		recordUpstream(c, start)
+	}
+
+	return Promise.all(outcomes)
+}
+
+/**
+ * Middleware that proxies JSON-RPC requests for routes in RPC mode.
+ * Single and batch requests are accepted; each request in a batch is checked,
+ * cached and coalesced on its own.
+ */
+export async function rpcMiddleware(c: Context<AppEnv>, next: Next) {
+	const route = c.get('route')
+	const config = route.rpc
+	if (!config) return next()
+
+	if (c.req.method !== 'POST')
+		return c.json({ error: 'JSON-RPC requests must use POST' }, 405)
+
+	const body = (await c.req.json().catch(() => undefined)) as unknown
+	if (body === undefined)
+		return c.json({
+			jsonrpc: '2.0',
+			id: null,
+			...rpcError(-32700, 'Parse error'),
+		})
+
+	const requests = Array.isArray(body) ? body : [body]
+	if (requests.length === 0)
+		return c.json({
+			jsonrpc: '2.0',
+			id: null,
+			...rpcError(-32600, 'Empty batch'),
+		})
+
+	const outcomes = await execute(c, route, config, requests)
+	const responses = outcomes.map((outcome, index) => ({
+		jsonrpc: '2.0',
+		id: (requests[index] as RpcRequest | undefined)?.id ?? null,
+		...outcome,
+	}))
+	return c.json(Array.isArray(body) ? responses : responses[0])
+}
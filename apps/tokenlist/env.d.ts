@@ -29,3 +29,9 @@ interface ImportMetaEnv extends Env {}
 interface ImportMeta {
 	readonly env: ImportMetaEnv
 }
+
+// WebAssembly modules, e.g. `@resvg/resvg-wasm/index_bg.wasm`, import as compiled modules
+declare module '*.wasm' {
+	const module: WebAssembly.Module
+	export default module
+}
@@ -0,0 +1,167 @@
+/**
+ * for every chain with a token list
+ * merge the curated tokens with the TIP-20 tokens discovered from factory events
+ * bump its version against the last published list
+ * validate the versioned list against the token list schema
+ * write the list to data/<chainId>/tokenlist.json and its changes to data/<chainId>/changelog.json
+ */
+
+import { chains } from '#chains.ts'
+import { formatVersion } from '#changelog.ts'
+import type { TokenInfo, TokenListSchema } from '#tokenlist.types.ts'
+import {
+	checkList,
+	getIconUri,
+	paths,
+	readChangelog,
+	readList,
+	validateSchema,
+	versionList,
+	writeChangelog,
+	writeList,
+} from './tokenlist.ts'
+
+const indexSupplyEndpoint = 'https://api.tempo.xyz/indexer/query'
+
+const eventSignature =
+	'TokenCreated(address indexed token, uint256 indexed tokenId, string name, string symbol, string currency, address quoteToken, address admin)'
+
+/** TIP-20 tokens always have 6 decimals. */
+const tip20Decimals = 6
+
+type DiscoveredToken = {
+	address: string
+	name: string
+	symbol: string
+	currency: string
+}
+
+async function discoverTokens(chainId: number): Promise<DiscoveredToken[]> {
+	const apiKey = process.env.INDEXER_API_KEY
+	if (!apiKey)
+		throw new Error('INDEXER_API_KEY environment variable is required')
+
+	const url = new URL(indexSupplyEndpoint)
+	url.searchParams.set('api-key', apiKey)
+
+	const query =
+		`SELECT token, name, symbol, currency FROM tokencreated ` +
+		`WHERE chain = ${chainId} ORDER BY block_timestamp ASC`
+
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: { 'content-type': 'application/json' },
+		body: JSON.stringify([
+			{ cursor: `${chainId}-0`, signatures: [eventSignature], query },
+		]),
+	})
+
+	if (!response.ok)
+		throw new Error(
+			`IndexSupply API error (${response.status}): ${await response.text()}`,
+		)
+
+	const [result] = (await response.json()) as Array<{ rows?: unknown[][] }>
+	if (!result?.rows)
+		throw new Error('Unexpected response format from IndexSupply')
+
+	return result.rows.map((row) => ({
+		address: String(row[0]).toLowerCase(),
+		name: String(row[1]),
+		symbol: String(row[2]),
+		currency: String(row[3]),
+	}))
+}
+
+/**
+ * Turn a discovered token into a token list entry, marked as unverified.
+ * @returns The entry, or `undefined` if its name or symbol cannot be listed
+ */
+function toTokenInfo(
+	chainId: number,
+	token: DiscoveredToken,
+): TokenInfo | undefined {
+	const name = token.name.replace(/\s+/g, ' ').trim()
+	const symbol = token.symbol.trim()
+	if (!name || name.length > 60) return undefined
+	if (!symbol || symbol.length > 20 || /\s/.test(symbol)) return undefined
+
+	const logoURI = getIconUri(chainId, token.address)
+	return {
+		name,
+		symbol,
+		decimals: tip20Decimals,
+		chainId,
+		address: token.address,
+		...(logoURI ? { logoURI } : {}),
+		extensions: {
+			chain: 'tempo',
+			...(token.currency ? { currency: token.currency } : {}),
+			verified: false,
+		},
+	} as TokenInfo
+}
+
+/**
+ * Merge curated and discovered tokens. Curated entries win over discovered
+ * entries for the same address.
+ */
+function mergeTokens(
+	chainId: number,
+	curated: TokenListSchema,
+	discovered: DiscoveredToken[],
+) {
+	const tokens = new Map<string, TokenInfo>()
+	for (const token of curated.tokens ?? [])
+		tokens.set(token.address.toLowerCase(), token)
+
+	let skipped = 0
+	for (const token of discovered) {
+		if (tokens.has(token.address)) continue
+		const info = toTokenInfo(chainId, token)
+		if (info) tokens.set(token.address, info)
+		else skipped++
+	}
+	if (skipped > 0)
+		console.warn(
+			`Skipped ${skipped} discovered tokens with an unlistable name or symbol.`,
+		)
+
+	return [...tokens.values()]
+}
+
+for (const chain of chains) {
+	console.info(`Building token list for ${chain.name} (${chain.id})…`)
+
+	const curated = await readList(paths.curated(chain.id))
+	const discovered = await discoverTokens(chain.id)
+	console.info(
+		`Found ${curated.tokens?.length ?? 0} curated and ${discovered.length} discovered tokens.`,
+	)
+
+	const { list, entry } = await versionList(chain.id, {
+		...curated,
+		tokens: mergeTokens(chain.id, curated, discovered),
+	} as TokenListSchema)
+
+	const errors = [...validateSchema(list), ...checkList(chain.id, list)]
+	if (errors.length > 0)
+		throw new Error(
+			`Token list for chain ${chain.id} is invalid:\n${errors.join('\n')}`,
+		)
+
+	await writeList(paths.list(chain.id), list)
+	console.info(
+		`Written ${list.tokens?.length} tokens to ${paths.list(chain.id)}`,
+	)
+
+	if (!entry) {
+		console.info(`No changes since ${formatVersion(list.version)}`)
+		continue
+	}
+	await writeChangelog(chain.id, [...(await readChangelog(chain.id)), entry])
+	console.info(
+		`Published ${formatVersion(entry.version)}: ${entry.added.length} added, ` +
+			`${entry.removed.length} removed, ${entry.changed.length} changed tokens`,
+	)
+}
@@ -0,0 +1,218 @@
+import { existsSync } from 'node:fs'
+import { readFile, writeFile } from 'node:fs/promises'
+import NodePath from 'node:path'
+import { Ajv } from 'ajv'
+import addFormats from 'ajv-formats'
+import { isAddress } from 'viem'
+import {
+	bumpVersion,
+	type Changelog,
+	type ChangelogEntry,
+	diffTokenLists,
+	getVersionUpgrade,
+	type TokenListDiff,
+} from '#changelog.ts'
+import TokenListJsonSchema from '#schema/tokenlist.schema.json' with {
+	type: 'json',
+}
+import type { TokenInfo, TokenListSchema, Version } from '#tokenlist.types.ts'
+
+export const rootPath = NodePath.join(import.meta.dirname, '..')
+
+/** Public base URL of the files in `data/`, used for `logoURI`s. */
+export const dataBaseUrl = 'https://esm.sh/gh/tempoxyz/tokenlist/data'
+
+export const paths = {
+	curated: (chainId: number) =>
+		NodePath.join(rootPath, 'curated', `${chainId}.json`),
+	list: (chainId: number) =>
+		NodePath.join(rootPath, 'data', String(chainId), 'tokenlist.json'),
+	changelog: (chainId: number) =>
+		NodePath.join(rootPath, 'data', String(chainId), 'changelog.json'),
+	icons: (chainId: number) =>
+		NodePath.join(rootPath, 'data', String(chainId), 'icons'),
+	data: NodePath.join(rootPath, 'data'),
+}
+
+const ajv = new Ajv({ allErrors: true })
+addFormats(ajv)
+const validateJsonSchema = ajv.compile(TokenListJsonSchema)
+
+/**
+ * Validate a token list against `schema/tokenlist.schema.json`.
+ * @returns The schema errors, formatted as `<path> <message>`
+ */
+export function validateSchema(list: unknown) {
+	if (validateJsonSchema(list)) return []
+	return (validateJsonSchema.errors ?? []).map(
+		(error) => `${error.instancePath || '/'} ${error.message}`,
+	)
+}
+
+export async function readList(path: string) {
+	return JSON.parse(await readFile(path, 'utf-8')) as TokenListSchema
+}
+
+export async function writeList(path: string, list: TokenListSchema) {
+	await writeFile(path, `${JSON.stringify(list, null, '\t')}\n`)
+}
+
+export async function readChangelog(chainId: number): Promise<Changelog> {
+	const path = paths.changelog(chainId)
+	if (!existsSync(path)) return []
+	return JSON.parse(await readFile(path, 'utf-8')) as Changelog
+}
+
+export async function writeChangelog(chainId: number, changelog: Changelog) {
+	await writeFile(
+		paths.changelog(chainId),
+		`${JSON.stringify(changelog, null, '\t')}\n`,
+	)
+}
+
+type VersionedTokenList = TokenListSchema & {
+	timestamp: string
+	version: Version
+}
+
+/**
+ * Version a built list against the last published one in `data/<chainId>/tokenlist.json`,
+ * bumping `version` and `timestamp` if anything changed.
+ * @param chainId Chain the list is for
+ * @param list Built list, without `version` and `timestamp`
+ * @returns The versioned list, and its changelog entry if it is a new version
+ */
+export async function versionList(chainId: number, list: TokenListSchema) {
+	const path = paths.list(chainId)
+	const published = existsSync(path) ? await readList(path) : undefined
+	const { tokens, version: _, timestamp: __, ...metadata } = list
+
+	let diff: TokenListDiff = { added: tokens ?? [], removed: [], changed: [] }
+	let version: Version = { major: 1, minor: 0, patch: 0 }
+	if (published?.version) {
+		const {
+			tokens: _publishedTokens,
+			version: publishedVersion,
+			timestamp: _publishedTimestamp,
+			...publishedMetadata
+		} = published
+		diff = diffTokenLists(published, list)
+		let upgrade = getVersionUpgrade(diff)
+		// List metadata, such as its name, logo or tags, changed.
+		if (
+			upgrade === 'none' &&
+			JSON.stringify(metadata) !== JSON.stringify(publishedMetadata)
+		)
+			upgrade = 'patch'
+
+		if (upgrade === 'none')
+			return {
+				list: {
+					...metadata,
+					timestamp: published.timestamp,
+					version: publishedVersion,
+					tokens,
+				} as VersionedTokenList,
+				entry: undefined,
+			}
+		version = bumpVersion(publishedVersion, upgrade)
+	}
+
+	const timestamp = new Date().toISOString()
+	return {
+		list: { ...metadata, timestamp, version, tokens } as VersionedTokenList,
+		entry: { version, timestamp, ...diff } satisfies ChangelogEntry,
+	}
+}
+
+/**
+ * Get the `logoURI` of a token if it has an icon in `data/<chainId>/icons`.
+ */
+export function getIconUri(chainId: number, address: string) {
+	const fileName = `${address.toLowerCase()}.svg`
+	if (!existsSync(NodePath.join(paths.icons(chainId), fileName)))
+		return undefined
+	return `${dataBaseUrl}/${chainId}/icons/${fileName}`
+}
+
+/**
+ * Checks if a token is curated rather than discovered from factory events.
+ */
+export function isVerified(token: TokenInfo) {
+	return token.extensions?.verified !== false
+}
+
+/**
+ * Check that a `logoURI` points at an existing file in `data/`, under `directory`.
+ * @returns A description of the issue, or `undefined` if the URI resolves
+ */
+function checkLogoUri(logoURI: string, directory: string) {
+	if (!logoURI.startsWith(`${dataBaseUrl}/${directory}/`))
+		return `logoURI ${logoURI} is not under ${dataBaseUrl}/${directory}/`
+	const path = logoURI.slice(dataBaseUrl.length + 1)
+	if (!existsSync(NodePath.join(paths.data, path)))
+		return `logoURI ${logoURI} does not resolve to data/${path}`
+	return undefined
+}
+
+/**
+ * Check a token list beyond its schema: token chain ids, address checksums,
+ * duplicate addresses and symbols, and `logoURI`s resolving to icons in
+ * `data/<chainId>/icons` named after the lowercase token address.
+ * @param chainId Chain the list is for
+ * @param list Token list
+ * @returns The issues found, one message each
+ */
+export function checkList(chainId: number, list: TokenListSchema) {
+	const issues: string[] = []
+
+	if (list.logoURI) {
+		const issue = checkLogoUri(list.logoURI, String(chainId))
+		if (issue) issues.push(`list: ${issue}`)
+	}
+
+	const addresses = new Map<string, string>()
+	const symbols = new Map<string, string>()
+	for (const [index, token] of (list.tokens ?? []).entries()) {
+		const label = `tokens[${index}] (${token.symbol})`
+
+		if (token.chainId !== chainId)
+			issues.push(
+				`${label}: chainId ${token.chainId} does not match chain ${chainId}`,
+			)
+
+		// Lowercase addresses carry no checksum; mixed case ones must be valid checksums.
+		if (
+			!isAddress(token.address, {
+				strict: token.address !== token.address.toLowerCase(),
+			})
+		)
+			issues.push(`${label}: address ${token.address} has an invalid checksum`)
+
+		const address = token.address.toLowerCase()
+		const duplicateAddress = addresses.get(address)
+		if (duplicateAddress)
+			issues.push(`${label}: duplicate address of ${duplicateAddress}`)
+		else addresses.set(address, label)
+
+		// Anyone can create a TIP-20 token, so only verified symbols must be unique.
+		const symbol = token.symbol.toLowerCase()
+		const duplicateSymbol = symbols.get(symbol)
+		if (isVerified(token)) {
+			if (duplicateSymbol)
+				issues.push(`${label}: duplicate symbol of ${duplicateSymbol}`)
+			else symbols.set(symbol, label)
+		}
+
+		if (token.logoURI) {
+			const issue = checkLogoUri(token.logoURI, `${chainId}/icons`)
+			if (issue) issues.push(`${label}: ${issue}`)
+			else if (!token.logoURI.endsWith(`/${address}.svg`))
+				issues.push(
+					`${label}: icon ${token.logoURI} should be named ${address}.svg`,
+				)
+		}
+	}
+
+	return issues
+}
@@ -0,0 +1,105 @@
+/**
+ * validate data/<chainId>/tokenlist.json of every chain, or of the chain ids passed as arguments
+ * check the list against the token list schema and the semantic checks
+ * with --rpc <url>, compare name, symbol and decimals with the on-chain TIP-20 metadata
+ * exit with code 1 if any issue is found
+ */
+
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+import { createPublicClient, erc20Abi, http } from 'viem'
+import { CHAIN_IDS } from '#chains.ts'
+import type { TokenListSchema } from '#tokenlist.types.ts'
+import { checkList, paths, readList, validateSchema } from './tokenlist.ts'
+
+const { values, positionals } = parseArgs({
+	allowPositionals: true,
+	options: {
+		rpc: { type: 'string' },
+	},
+})
+
+const rpcUrl = values.rpc
+
+/** Number of tokens whose metadata is read at once. */
+const batchSize = 20
+
+/**
+ * Compare the name, symbol and decimals of every token with its on-chain metadata.
+ * @returns The mismatches found, one message each
+ */
+async function checkOnChain(list: TokenListSchema, rpcUrl: string) {
+	const client = createPublicClient({ transport: http(rpcUrl) })
+	const tokens = list.tokens ?? []
+	const issues: string[] = []
+
+	for (let start = 0; start < tokens.length; start += batchSize) {
+		const batch = tokens.slice(start, start + batchSize)
+		await Promise.all(
+			batch.map(async (token, offset) => {
+				const label = `tokens[${start + offset}] (${token.symbol})`
+				const address = token.address as `0x${string}`
+				try {
+					const [name, symbol, decimals] = await Promise.all([
+						client.readContract({
+							address,
+							abi: erc20Abi,
+							functionName: 'name',
+						}),
+						client.readContract({
+							address,
+							abi: erc20Abi,
+							functionName: 'symbol',
+						}),
+						client.readContract({
+							address,
+							abi: erc20Abi,
+							functionName: 'decimals',
+						}),
+					])
+					if (name !== token.name)
+						issues.push(`${label}: name ${token.name} is ${name} on-chain`)
+					if (symbol !== token.symbol)
+						issues.push(
+							`${label}: symbol ${token.symbol} is ${symbol} on-chain`,
+						)
+					if (decimals !== token.decimals)
+						issues.push(
+							`${label}: decimals ${token.decimals} is ${decimals} on-chain`,
+						)
+				} catch (error) {
+					const message = error instanceof Error ? error.message : error
+					issues.push(`${label}: failed to read on-chain metadata: ${message}`)
+				}
+			}),
+		)
+	}
+
+	return issues
+}
+
+const chainIds = positionals.length > 0 ? positionals.map(Number) : CHAIN_IDS
+
+let failed = false
+for (const chainId of chainIds) {
+	if (!CHAIN_IDS.includes(chainId)) {
+		console.error(`✗ Chain ${chainId} has no token list`)
+		failed = true
+		continue
+	}
+
+	const path = paths.list(chainId)
+	const list = await readList(path)
+	const issues = [...validateSchema(list), ...checkList(chainId, list)]
+	if (rpcUrl) issues.push(...(await checkOnChain(list, rpcUrl)))
+
+	if (issues.length === 0) {
+		console.info(`✓ ${path}`)
+		continue
+	}
+	failed = true
+	console.error(`✗ ${path}`)
+	for (const issue of issues) console.error(`  ${issue}`)
+}
+
+if (failed) process.exit(1)
@@ -0,0 +1,40 @@
+import type { Changelog } from '#changelog.ts'
+import type { TokenListSchema } from '#tokenlist.types.ts'
+
+/**
+ * Parsed JSON assets by path. Assets only change with a deployment, which
+ * starts new isolates, so they are parsed once per isolate.
+ */
+const cache = new Map<string, Promise<unknown>>()
+
+/**
+ * Fetch and parse a JSON file from the static assets, once per isolate.
+ * @param assets Static assets binding
+ * @param path Path of the file in `data/`
+ * @returns The parsed file, or `undefined` if it does not exist
+ */
+export function getJsonAsset<T>(assets: Fetcher, path: string) {
+	let value = cache.get(path)
+	if (!value) {
+		value = assets
+			.fetch(new URL(path, 'http://assets'))
+			.then(async (response) => {
+				if (response.status === 404) return undefined
+				if (!response.ok)
+					throw new Error(`Failed to fetch ${path} (${response.status})`)
+				return response.json()
+			})
+		// Failures are retried by the next request.
+		value.catch(() => cache.delete(path))
+		cache.set(path, value)
+	}
+	return value as Promise<T | undefined>
+}
+
+export function getList(assets: Fetcher, chainId: number | string) {
+	return getJsonAsset<TokenListSchema>(assets, `/${chainId}/tokenlist.json`)
+}
+
+export function getChangelog(assets: Fetcher, chainId: number | string) {
+	return getJsonAsset<Changelog>(assets, `/${chainId}/changelog.json`)
+}
@@ -3,4 +3,20 @@ import { tempoDevnet, tempoTestnet } from 'tempo.ts/chains'
 export const DEVNET_CHAIN_ID = tempoDevnet.id
 export const TESTNET_CHAIN_ID = tempoTestnet.id
 
+/**
+ * Chains with a token list. Each needs curated tokens in `curated/<chainId>.json`,
+ * built into `data/<chainId>/tokenlist.json` by `pnpm build:lists`.
+ */
+export const chains = [tempoTestnet] as const
+
+export const CHAIN_IDS: readonly number[] = chains.map((chain) => chain.id)
+
+/**
+ * Checks if a chain has a token list.
+ * @param chainId Chain id, e.g. from a route parameter
+ */
+export function isChainId(chainId: string | number) {
+	return CHAIN_IDS.includes(Number(chainId))
+}
+
 export { tempoTestnet, tempoDevnet }
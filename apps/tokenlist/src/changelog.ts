@@ -0,0 +1,186 @@
+import type { TokenInfo, TokenListSchema, Version } from '#tokenlist.types.ts'
+
+export type VersionUpgrade = 'none' | 'patch' | 'minor' | 'major'
+
+export type TokenChange = {
+	from: TokenInfo
+	to: TokenInfo
+}
+
+/**
+ * Tokens added, removed and changed between two versions of a list.
+ */
+export type TokenListDiff = {
+	added: TokenInfo[]
+	removed: TokenInfo[]
+	changed: TokenChange[]
+}
+
+/**
+ * A published version of a list and what changed since the previous one.
+ */
+export type ChangelogEntry = TokenListDiff & {
+	version: Version
+	timestamp: string
+}
+
+/**
+ * Changelog of a list, in `data/<chainId>/changelog.json`, oldest version first.
+ */
+export type Changelog = ChangelogEntry[]
+
+/**
+ * Parse a `major.minor.patch` version string.
+ * @returns The version, or `undefined` if the string is not a version
+ */
+export function parseVersion(version: string): Version | undefined {
+	const match = version.match(/^(\d+)\.(\d+)\.(\d+)$/)
+	if (!match) return undefined
+	return {
+		major: Number(match[1]),
+		minor: Number(match[2]),
+		patch: Number(match[3]),
+	}
+}
+
+export function formatVersion(version: Version) {
+	return `${version.major}.${version.minor}.${version.patch}`
+}
+
+/**
+ * @returns A negative number if `a` is older than `b`, a positive number if it
+ * is newer, and `0` if they are the same version
+ */
+export function compareVersions(a: Version, b: Version) {
+	return a.major - b.major || a.minor - b.minor || a.patch - b.patch
+}
+
+function getTokenKey(token: TokenInfo) {
+	return `${token.chainId}_${token.address.toLowerCase()}`
+}
+
+/**
+ * Compare two token entries, ignoring key order.
+ */
+function isSameToken(a: TokenInfo, b: TokenInfo) {
+	return stableStringify(a) === stableStringify(b)
+}
+
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+	if (value && typeof value === 'object')
+		return `{${Object.keys(value)
+			.sort()
+			.map(
+				(key) =>
+					`${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+			)
+			.join(',')}}`
+	return JSON.stringify(value)
+}
+
+/**
+ * Diff the tokens of two versions of a list. Tokens are matched by chain id and
+ * address.
+ * @param base Older version of the list
+ * @param update Newer version of the list
+ */
+export function diffTokenLists(
+	base: TokenListSchema,
+	update: TokenListSchema,
+): TokenListDiff {
+	const baseTokens = new Map(
+		(base.tokens ?? []).map((token) => [getTokenKey(token), token]),
+	)
+	const diff: TokenListDiff = { added: [], removed: [], changed: [] }
+
+	for (const token of update.tokens ?? []) {
+		const key = getTokenKey(token)
+		const baseToken = baseTokens.get(key)
+		baseTokens.delete(key)
+		if (!baseToken) diff.added.push(token)
+		else if (!isSameToken(baseToken, token))
+			diff.changed.push({ from: baseToken, to: token })
+	}
+	diff.removed.push(...baseTokens.values())
+
+	return diff
+}
+
+/**
+ * Get the smallest version upgrade a diff requires: major when tokens are
+ * removed, minor when tokens are added, patch when tokens change.
+ */
+export function getVersionUpgrade(diff: TokenListDiff): VersionUpgrade {
+	if (diff.removed.length > 0) return 'major'
+	if (diff.added.length > 0) return 'minor'
+	if (diff.changed.length > 0) return 'patch'
+	return 'none'
+}
+
+export function bumpVersion(version: Version, upgrade: VersionUpgrade) {
+	switch (upgrade) {
+		case 'major':
+			return { major: version.major + 1, minor: 0, patch: 0 }
+		case 'minor':
+			return { major: version.major, minor: version.minor + 1, patch: 0 }
+		case 'patch':
+			return { ...version, patch: version.patch + 1 }
+		case 'none':
+			return version
+	}
+}
+
+/**
+ * Combine the changelog entries published after a version into a single diff,
+ * so that a token added then removed again does not show up, and a token
+ * changed several times shows up once with its first and last entries.
+ * @param changelog Changelog of the list
+ * @param from Version the diff starts from
+ */
+export function getChangesSince(
+	changelog: Changelog,
+	from: Version,
+): TokenListDiff {
+	const added = new Map<string, TokenInfo>()
+	const removed = new Map<string, TokenInfo>()
+	const changed = new Map<string, TokenChange>()
+
+	const entries = changelog
+		.filter((entry) => compareVersions(entry.version, from) > 0)
+		.sort((a, b) => compareVersions(a.version, b.version))
+
+	for (const entry of entries) {
+		for (const token of entry.removed) {
+			const key = getTokenKey(token)
+			const change = changed.get(key)
+			changed.delete(key)
+			if (added.delete(key)) continue
+			removed.set(key, change?.from ?? token)
+		}
+		for (const token of entry.added) {
+			const key = getTokenKey(token)
+			const removedToken = removed.get(key)
+			removed.delete(key)
+			if (!removedToken) added.set(key, token)
+			else if (!isSameToken(removedToken, token))
+				changed.set(key, { from: removedToken, to: token })
+		}
+		for (const { from, to } of entry.changed) {
+			const key = getTokenKey(to)
+			if (added.has(key)) {
+				added.set(key, to)
+				continue
+			}
+			const first = changed.get(key)?.from ?? from
+			if (isSameToken(first, to)) changed.delete(key)
+			else changed.set(key, { from: first, to })
+		}
+	}
+
+	return {
+		added: [...added.values()],
+		removed: [...removed.values()],
+		changed: [...changed.values()],
+	}
+}
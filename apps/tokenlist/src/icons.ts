@@ -0,0 +1,185 @@
+import { initWasm, Resvg } from '@resvg/resvg-wasm'
+import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm'
+
+export const iconFormats = ['svg', 'png', 'webp'] as const
+export type IconFormat = (typeof iconFormats)[number]
+
+/** Sizes raster icons are rendered at, in pixels. */
+export const iconSizes = [16, 24, 32, 48, 64, 96, 128, 256, 512] as const
+export const defaultIconSize = 64
+
+export const iconContentTypes = {
+	svg: 'image/svg+xml',
+	png: 'image/png',
+	webp: 'image/webp',
+} as const satisfies Record<IconFormat, string>
+
+export function isIconFormat(format: string): format is IconFormat {
+	return iconFormats.includes(format as IconFormat)
+}
+
+export function isIconSize(size: number) {
+	return iconSizes.includes(size as (typeof iconSizes)[number])
+}
+
+let resvgInitialization: Promise<void> | undefined
+
+/**
+ * Render an SVG icon to a square raster image.
+ * @param svg SVG source
+ * @param format Raster format
+ * @param size Width and height in pixels
+ * @param images Images binding, required to encode WebP
+ * @returns The encoded image
+ */
+export async function renderIcon(
+	svg: string,
+	format: Exclude<IconFormat, 'svg'>,
+	size: number,
+	images: ImagesBinding | undefined,
+): Promise<ReadableStream<Uint8Array> | Uint8Array<ArrayBuffer>> {
+	resvgInitialization ??= initWasm(resvgWasm)
+	await resvgInitialization
+
+	const resvg = new Resvg(svg, { fitTo: { mode: 'width', value: size } })
+	const image = resvg.render()
+	// copy into an `ArrayBuffer`-backed array, as `BodyInit` requires
+	const png = new Uint8Array(image.asPng())
+	image.free()
+	resvg.free()
+
+	if (format === 'png') return png
+
+	// resvg only encodes PNG, so the Images binding converts it to WebP.
+	if (!images) throw new Error('Images binding "IMAGES" is not configured.')
+	const result = await images
+		.input(new Blob([png]).stream())
+		.output({ format: 'image/webp' })
+	const body = result.response().body
+	if (!body) throw new Error('Images binding returned an empty image.')
+	return body
+}
+
+/**
+ * Get a strong ETag for an icon variant, derived from its SVG source.
+ */
+export async function getIconETag(
+	svg: string,
+	format: IconFormat,
+	size: number,
+) {
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(`${format}:${size}:${svg}`),
+	)
+	const hash = Array.from(new Uint8Array(digest).slice(0, 16), (byte) =>
+		byte.toString(16).padStart(2, '0'),
+	).join('')
+	return `"${hash}"`
+}
+
+/**
+ * Generate the icon of a token without one: up to two initials on a circle
+ * whose color is derived from the token address.
+ * @param address Token address
+ * @param symbol Token symbol the initials are taken from, or the address if unknown
+ */
+export function getFallbackIcon(address: string, symbol: string | undefined) {
+	address = address.toLowerCase()
+	const initials = (symbol ?? address.slice(-2))
+		.toUpperCase()
+		.split('')
+		.filter((character) => character in glyphs)
+		.slice(0, 2)
+
+	// FNV-1a hash of the address, so that every token gets a stable hue.
+	let hash = 0x811c9dc5
+	for (const character of address) {
+		hash ^= character.charCodeAt(0)
+		hash = Math.imul(hash, 0x01000193) >>> 0
+	}
+	const color = hslToHex(hash % 360, 0.6, 0.42)
+
+	const scale = 20 / glyphHeight
+	const width = initials.length * glyphWidth + (initials.length - 1) * glyphGap
+	const x = 32 - (width * scale) / 2
+	const y = 32 - (glyphHeight * scale) / 2
+	const paths = initials
+		.map(
+			(character, index) =>
+				`<path transform="translate(${index * (glyphWidth + glyphGap)} 0)" d="${glyphs[character]}"/>`,
+		)
+		.join('')
+
+	return (
+		`<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 64 64">` +
+		`<circle cx="32" cy="32" r="32" fill="${color}"/>` +
+		`<g transform="translate(${round(x)} ${round(y)}) scale(${round(scale)})" fill="none" stroke="#fff" stroke-width="0.8" stroke-linecap="round" stroke-linejoin="round">${paths}</g>` +
+		`</svg>`
+	)
+}
+
+function round(value: number) {
+	return Math.round(value * 1000) / 1000
+}
+
+function hslToHex(hue: number, saturation: number, lightness: number) {
+	const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+	const channel = (offset: number) => {
+		const k = (offset + hue / 30) % 12
+		const value =
+			lightness - (chroma / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+		return Math.round(value * 255)
+			.toString(16)
+			.padStart(2, '0')
+	}
+	return `#${channel(0)}${channel(8)}${channel(4)}`
+}
+
+const glyphWidth = 4
+const glyphHeight = 6
+const glyphGap = 1.6
+
+/**
+ * Stroked outlines of the characters initials can use, on a 4×6 grid. Drawing
+ * them as paths keeps fallback icons identical in SVG and raster formats, as
+ * the renderer has no fonts.
+ */
+const glyphs: Record<string, string> = {
+	A: 'M0 6L2 0L4 6M0.7 4H3.3',
+	B: 'M0 3V0H2.4Q3.6 0 3.6 1.5Q3.6 3 2.4 3H0V6H2.6Q4 6 4 4.5Q4 3 2.4 3',
+	C: 'M4 0.8Q3.2 0 2 0Q0 0 0 3Q0 6 2 6Q3.2 6 4 5.2',
+	D: 'M0 0V6H1.8Q4 6 4 3Q4 0 1.8 0Z',
+	E: 'M4 0H0V6H4M0 3H3',
+	F: 'M4 0H0V6M0 3H3',
+	G: 'M4 0.8Q3.2 0 2 0Q0 0 0 3Q0 6 2 6Q4 6 4 3.5V3H2.2',
+	H: 'M0 0V6M4 0V6M0 3H4',
+	I: 'M1 0H3M2 0V6M1 6H3',
+	J: 'M4 0V4.5Q4 6 2 6Q0 6 0 4.5',
+	K: 'M0 0V6M4 0L0 3.6M1.2 2.6L4 6',
+	L: 'M0 0V6H4',
+	M: 'M0 6V0L2 3.5L4 0V6',
+	N: 'M0 6V0L4 6V0',
+	O: 'M2 0Q0 0 0 3Q0 6 2 6Q4 6 4 3Q4 0 2 0Z',
+	P: 'M0 6V0H2.5Q4 0 4 1.6Q4 3.2 2.5 3.2H0',
+	Q: 'M2 0Q0 0 0 3Q0 6 2 6Q4 6 4 3Q4 0 2 0ZM2.6 4.4L4 6.2',
+	R: 'M0 6V0H2.5Q4 0 4 1.6Q4 3.2 2.5 3.2H0M2.2 3.2L4 6',
+	S: 'M4 0.8Q3.3 0 2 0Q0.2 0 0.2 1.5Q0.2 2.7 2 3Q3.8 3.3 3.8 4.5Q3.8 6 2 6Q0.7 6 0 5.2',
+	T: 'M0 0H4M2 0V6',
+	U: 'M0 0V4Q0 6 2 6Q4 6 4 4V0',
+	V: 'M0 0L2 6L4 0',
+	W: 'M0 0L1 6L2 2.5L3 6L4 0',
+	X: 'M0 0L4 6M4 0L0 6',
+	Y: 'M0 0L2 3L4 0M2 3V6',
+	Z: 'M0 0H4L0 6H4',
+	'0': 'M2 0Q0 0 0 3Q0 6 2 6Q4 6 4 3Q4 0 2 0ZM3.4 1L0.6 5',
+	'1': 'M0.8 1.2L2 0V6M0.8 6H3.2',
+	'2': 'M0.2 1Q0.8 0 2 0Q3.8 0 3.8 1.6Q3.8 2.8 2 4L0 6H4',
+	'3': 'M0.2 0.8Q0.9 0 2 0Q3.8 0 3.8 1.5Q3.8 3 2 3Q4 3 4 4.5Q4 6 2 6Q0.8 6 0 5.2',
+	'4': 'M3 6V0L0 4.2H4',
+	'5': 'M3.8 0H0.4L0.2 2.8Q0.8 2.4 1.8 2.4Q4 2.4 4 4.2Q4 6 2 6Q0.8 6 0 5.2',
+	'6': 'M3.6 0.6Q3 0 2 0Q0 0 0 3.5Q0 6 2 6Q4 6 4 4.1Q4 2.4 2.1 2.4Q0.7 2.4 0 3.6',
+	'7': 'M0 0H4L1.5 6',
+	'8': 'M2 3Q0.3 3 0.3 1.5Q0.3 0 2 0Q3.7 0 3.7 1.5Q3.7 3 2 3Q0 3 0 4.5Q0 6 2 6Q4 6 4 4.5Q4 3 2 3Z',
+	'9': 'M0.4 5.4Q1 6 2 6Q4 6 4 2.5Q4 0 2 0Q0 0 0 1.9Q0 3.6 1.9 3.6Q3.3 3.6 4 2.4',
+}
@@ -1,16 +1,55 @@
 import { Hono } from 'hono'
-import { tempoDevnet, tempoTestnet } from '#chains.ts'
+import { cors } from 'hono/cors'
+import { etag } from 'hono/etag'
+import { getChangelog, getList } from '#assets.ts'
+import { CHAIN_IDS, isChainId } from '#chains.ts'
+import {
+	compareVersions,
+	formatVersion,
+	getChangesSince,
+	parseVersion,
+} from '#changelog.ts'
 import { Docs } from '#docs.tsx'
+import {
+	defaultIconSize,
+	getFallbackIcon,
+	getIconETag,
+	iconContentTypes,
+	iconFormats,
+	iconSizes,
+	isIconFormat,
+	isIconSize,
+	renderIcon,
+} from '#icons.ts'
 import { OpenAPISpec, TokenList } from '#schema.ts'
-import type { TokenListSchema } from '#tokenlist.types.ts'
+import {
+	defaultSearchLimit,
+	isCursor,
+	maxSearchLimit,
+	searchTokens,
+} from '#search.ts'
+import type { TokenInfo } from '#tokenlist.types.ts'
 
 const app = new Hono<{ Bindings: Cloudflare.Env }>()
 
-const CHAIN_IDS = [tempoDevnet.id, tempoTestnet.id]
-
 const staticAssetBindingError =
 	'Static assets binding "ASSETS" is not configured.'
 
+// lists only change with a deployment; clients revalidate them with their ETag
+const listCacheControl = 'public, max-age=300'
+
+app.use(
+	'*',
+	cors({
+		origin: '*',
+		allowMethods: ['GET', 'HEAD', 'OPTIONS'],
+		exposeHeaders: ['ETag'],
+		maxAge: 86400,
+	}),
+)
+
+app.use('*', etag())
+
 app.get('/', (_context) => new Response('ok'))
 
 app.get('/health', (_context) => new Response('ok'))
@@ -25,8 +64,7 @@ app
 
 app.get('/icon/:chain_id', async (context) => {
 	const chainId = context.req.param('chain_id')
-	if (![tempoDevnet.id, tempoTestnet.id].includes(Number(chainId)))
-		return context.notFound()
+	if (!isChainId(chainId)) return context.notFound()
 
 	const assets = context.env.ASSETS
 	console.log(assets)
@@ -51,69 +89,129 @@ app.get('/icon/:chain_id', async (context) => {
 })
 
 app.get('/icon/:chain_id/:address', async (context) => {
-	const address = context.req.param('address')
 	const chainId = context.req.param('chain_id')
-
-	if (![tempoDevnet.id, tempoTestnet.id].includes(Number(chainId)))
-		return context.notFound()
+	if (!isChainId(chainId)) return context.notFound()
+
+	// the address may end with the format, e.g. `0x….png`
+	const [, address, extension] =
+		context.req
+			.param('address')
+			.toLowerCase()
+			.match(/^(0x[0-9a-f]{40})(?:\.(\w+))?$/) ?? []
+	if (!address) return context.notFound()
+
+	const format = context.req.query('format') ?? extension ?? 'svg'
+	if (!isIconFormat(format))
+		return context.json(
+			{ error: `Format must be one of ${iconFormats.join(', ')}` },
+			400,
+		)
+	const size = Number(context.req.query('size') ?? defaultIconSize)
+	if (format !== 'svg' && !isIconSize(size))
+		return context.json(
+			{ error: `Size must be one of ${iconSizes.join(', ')}` },
+			400,
+		)
 
 	const assets = context.env.ASSETS
 	if (!assets) return new Response(staticAssetBindingError, { status: 500 })
 
-	const assetUrl = new URL(
-		`/${chainId}/icons/${address.toLowerCase().replace('.svg', '')}.svg`,
-		'http://assets',
-	)
+	const assetUrl = new URL(`/${chainId}/icons/${address}.svg`, 'http://assets')
 	const assetResponse = await assets.fetch(assetUrl)
 
-	if (assetResponse.status === 404) return context.notFound()
-
-	// Let CF set correct headers; override only when missing
-	const headers = new Headers(assetResponse.headers)
-	if (!headers.has('Content-Type')) headers.set('Content-Type', 'image/svg+xml')
-
-	return new Response(assetResponse.body, {
-		status: assetResponse.status,
-		headers,
+	let svg: string
+	let cacheControl: string
+	if (assetResponse.ok) {
+		svg = await assetResponse.text()
+		cacheControl = 'public, max-age=31536000, immutable'
+	} else if (assetResponse.status === 404) {
+		const list = await getList(assets, chainId)
+		const token = list?.tokens?.find(
+			(token) => token.address.toLowerCase() === address,
+		)
+		svg = getFallbackIcon(address, token?.symbol)
+		// the generated icon is replaced once the token gets an icon
+		cacheControl = 'public, max-age=86400'
+	} else return new Response(null, { status: assetResponse.status })
+
+	const etag = await getIconETag(svg, format, format === 'svg' ? 0 : size)
+	const headers = new Headers({
+		'Content-Type': iconContentTypes[format],
+		'Cache-Control': cacheControl,
+		ETag: etag,
 	})
+	if (isNotModified(context.req.header('If-None-Match'), etag))
+		return new Response(null, { status: 304, headers })
+
+	const body =
+		format === 'svg'
+			? svg
+			: await renderIcon(svg, format, size, context.env.IMAGES)
+	return new Response(body, { headers })
 })
 
 app.get('/list/:chain_id', async (context) => {
 	const chainId = context.req.param('chain_id')
-	if (![tempoDevnet.id, tempoTestnet.id].includes(Number(chainId)))
-		return context.notFound()
+	if (!isChainId(chainId)) return context.notFound()
 
 	const assets = context.env.ASSETS
 	if (!assets) return new Response(staticAssetBindingError, { status: 500 })
 
-	const assetUrl = new URL(`/${chainId}/tokenlist.json`, 'http://assets')
-	const assetResponse = await assets.fetch(assetUrl)
-
-	if (assetResponse.status === 404) return context.notFound()
-
-	const list = await assetResponse.json()
+	const list = await getList(assets, chainId)
 	if (!list) return context.notFound()
 
+	context.header('Cache-Control', listCacheControl)
 	return context.json(list)
 })
 
+app.get('/list/:chain_id/diff', async (context) => {
+	const chainId = context.req.param('chain_id')
+	if (!isChainId(chainId)) return context.notFound()
+
+	const from = parseVersion(context.req.query('from') ?? '')
+	if (!from)
+		return context.json(
+			{ error: 'Query parameter "from" must be a version, e.g. 1.0.0' },
+			400,
+		)
+
+	const assets = context.env.ASSETS
+	if (!assets) return new Response(staticAssetBindingError, { status: 500 })
+
+	const [list, changelog] = await Promise.all([
+		getList(assets, chainId),
+		getChangelog(assets, chainId),
+	])
+	if (!list?.version || !changelog) return context.notFound()
+
+	if (compareVersions(from, list.version) > 0)
+		return context.json(
+			{
+				error: `Version ${formatVersion(from)} is newer than the current version ${formatVersion(list.version)}`,
+			},
+			400,
+		)
+
+	context.header('Cache-Control', listCacheControl)
+	return context.json({
+		from: formatVersion(from),
+		to: formatVersion(list.version),
+		timestamp: list.timestamp,
+		...getChangesSince(changelog, from),
+	})
+})
+
 // id could be symbol or address
 app.get('/asset/:chain_id/:id', async (context) => {
 	const id = context.req.param('id')
 	const chainId = context.req.param('chain_id')
 
-	if (![tempoDevnet.id, tempoTestnet.id].includes(Number(chainId)))
-		return context.notFound()
+	if (!isChainId(chainId)) return context.notFound()
 
 	const assets = context.env.ASSETS
 	if (!assets) return new Response(staticAssetBindingError, { status: 500 })
 
-	const assetUrl = new URL(`/${chainId}/tokenlist.json`, 'http://assets')
-	const assetResponse = await assets.fetch(assetUrl)
-
-	if (assetResponse.status === 404) return context.notFound()
-
-	const list = (await assetResponse.json()) as TokenListSchema
+	const list = await getList(assets, chainId)
 	if (!list) return context.notFound()
 
 	const asset = list.tokens?.find(
@@ -124,29 +222,105 @@ app.get('/asset/:chain_id/:id', async (context) => {
 
 	if (!asset) return context.notFound()
 
+	context.header('Cache-Control', listCacheControl)
 	return context.json(asset)
 })
 
+app.get('/search/:chain_id', async (context) => {
+	const chainId = context.req.param('chain_id')
+	if (!isChainId(chainId)) return context.notFound()
+
+	const cursor = context.req.query('cursor')
+	if (cursor !== undefined && !isCursor(cursor))
+		return context.json({ error: 'Query parameter "cursor" is invalid' }, 400)
+
+	const limit = Number(context.req.query('limit') ?? defaultSearchLimit)
+	if (!Number.isInteger(limit) || limit < 1 || limit > maxSearchLimit)
+		return context.json(
+			{
+				error: `Query parameter "limit" must be an integer between 1 and ${maxSearchLimit}`,
+			},
+			400,
+		)
+
+	// `extensions[currency]=USD` filters on `extensions.currency`
+	const extensions: Record<string, string> = {}
+	for (const [key, values] of Object.entries(context.req.queries())) {
+		const extension = key.match(/^extensions\[(.+)\]$/)?.[1]
+		const value = values.at(-1)
+		if (extension && value !== undefined) extensions[extension] = value
+	}
+
+	const assets = context.env.ASSETS
+	if (!assets) return new Response(staticAssetBindingError, { status: 500 })
+
+	const list = await getList(assets, chainId)
+	if (!list) return context.notFound()
+
+	context.header('Cache-Control', listCacheControl)
+	return context.json(
+		searchTokens(list, {
+			query: context.req.query('q'),
+			tags: context.req.queries('tag'),
+			extensions,
+			cursor,
+			limit,
+		}),
+	)
+})
+
 app.get('/lists/all', async (context) => {
 	const assets = context.env.ASSETS
 	if (!assets) return new Response(staticAssetBindingError, { status: 500 })
 
-	const responses = await Promise.allSettled(
-		CHAIN_IDS.map((chainId) =>
-			assets
-				.fetch(new URL(`/${chainId}/tokenlist.json`, 'http://assets'))
-				.then((response) => response.json())
-				.then((list) => ({ chainId, list })),
+	const lists = await Promise.all(
+		CHAIN_IDS.map(async (chainId) => {
+			try {
+				const list = await getList(assets, chainId)
+				if (list) return { chainId, list }
+				return { chainId, list: null, error: 'Token list not found' }
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error)
+				return { chainId, list: null, error: message }
+			}
+		}),
+	)
+
+	context.header('Cache-Control', listCacheControl)
+	return context.json(lists)
+})
+
+app.get('/tokenMap/:chain_id?', async (context) => {
+	const chainId = context.req.param('chain_id')
+	if (chainId !== undefined && !isChainId(chainId)) return context.notFound()
+
+	const assets = context.env.ASSETS
+	if (!assets) return new Response(staticAssetBindingError, { status: 500 })
+
+	const lists = await Promise.all(
+		(chainId === undefined ? CHAIN_IDS : [chainId]).map((chainId) =>
+			getList(assets, chainId),
 		),
 	)
 
-	const fulfilled = responses
-		.map((response) =>
-			response.status === 'fulfilled' ? response.value.list : null,
-		)
-		.filter((list): list is TokenListSchema => list !== null)
+	// keyed `chainId_tokenAddress`, as `TokenListSchema.tokenMap`
+	const tokenMap: Record<string, TokenInfo> = {}
+	for (const token of lists.flatMap((list) => list?.tokens ?? []))
+		tokenMap[`${token.chainId}_${token.address}`] = token
 
-	return context.json(fulfilled)
+	context.header('Cache-Control', listCacheControl)
+	return context.json(tokenMap)
 })
 
 export default app satisfies ExportedHandler<Cloudflare.Env>
+
+/**
+ * Checks if an `If-None-Match` header matches an ETag.
+ */
+function isNotModified(ifNoneMatch: string | undefined, etag: string) {
+	if (!ifNoneMatch) return false
+	return ifNoneMatch.split(',').some((value) => {
+		const tag = value.trim()
+		return tag === '*' || tag === etag || tag === `W/${etag}`
+	})
+}
@@ -0,0 +1,189 @@
+import type {
+	TagDefinition,
+	TokenInfo,
+	TokenListSchema,
+} from '#tokenlist.types.ts'
+
+export const defaultSearchLimit = 20
+export const maxSearchLimit = 100
+
+export type SearchOptions = {
+	/** Text matched against token names, symbols and addresses. */
+	query?: string
+	/** Tag identifiers tokens must all have. */
+	tags?: string[]
+	/** `extensions` values tokens must have, compared case-insensitively. */
+	extensions?: Record<string, string>
+	/** Cursor returned with the previous page. */
+	cursor?: string
+	limit?: number
+}
+
+export type SearchResult = {
+	tokens: TokenInfo[]
+	/** Definitions of the tags of the returned tokens. */
+	tags: Record<string, TagDefinition>
+	/** Cursor of the next page, or `null` on the last page. */
+	nextCursor: string | null
+}
+
+type Match = {
+	token: TokenInfo
+	score: number
+}
+
+/**
+ * Search the tokens of a list. Matches are ranked by how well they match the
+ * query, then by address, and paginated with a cursor pointing at the last
+ * match of the previous page, so that pages stay stable across list updates.
+ * @param list Token list
+ * @param options Query, filters and page
+ * @returns A page of matching tokens
+ */
+export function searchTokens(
+	list: TokenListSchema,
+	options: SearchOptions,
+): SearchResult {
+	const query = options.query?.trim().toLowerCase() ?? ''
+	const limit = Math.min(
+		Math.max(options.limit ?? defaultSearchLimit, 1),
+		maxSearchLimit,
+	)
+
+	const matches: Match[] = []
+	for (const token of list.tokens ?? []) {
+		if (
+			!hasTags(token, options.tags) ||
+			!hasExtensions(token, options.extensions)
+		)
+			continue
+		const score = query ? getScore(token, query) : 0
+		if (score === undefined) continue
+		matches.push({ token, score })
+	}
+	matches.sort(compareMatches)
+
+	const after = options.cursor ? decodeCursor(options.cursor) : undefined
+	const start = after
+		? matches.findIndex((match) => compareMatches(match, after) > 0)
+		: 0
+	const page = start === -1 ? [] : matches.slice(start, start + limit)
+	const last = page.at(-1)
+	const hasMore = start !== -1 && start + limit < matches.length
+
+	const tags: Record<string, TagDefinition> = {}
+	for (const { token } of page)
+		for (const tag of token.tags ?? []) {
+			const definition = list.tags?.[tag]
+			if (definition) tags[tag] = definition
+		}
+
+	return {
+		tokens: page.map((match) => match.token),
+		tags,
+		nextCursor: hasMore && last ? encodeCursor(last) : null,
+	}
+}
+
+/**
+ * Checks if a string is a valid search cursor.
+ */
+export function isCursor(cursor: string) {
+	return decodeCursor(cursor) !== undefined
+}
+
+function hasTags(token: TokenInfo, tags: string[] | undefined) {
+	if (!tags?.length) return true
+	const tokenTags: readonly string[] = token.tags ?? []
+	return tags.every((tag) => tokenTags.includes(tag))
+}
+
+function hasExtensions(
+	token: TokenInfo,
+	extensions: Record<string, string> | undefined,
+) {
+	if (!extensions) return true
+	return Object.entries(extensions).every(([key, value]) => {
+		const extension = token.extensions?.[key]
+		if (extension === undefined || typeof extension === 'object') return false
+		return String(extension).toLowerCase() === value.toLowerCase()
+	})
+}
+
+/**
+ * Score how well a token matches a lowercase query, from exact address and
+ * symbol matches down to fuzzy matches of the query's characters in order.
+ * Curated tokens rank above discovered ones with the same match.
+ * @returns The score, or `undefined` if the token does not match
+ */
+function getScore(token: TokenInfo, query: string) {
+	const address = token.address.toLowerCase()
+	const symbol = token.symbol.toLowerCase()
+	const name = token.name.toLowerCase()
+
+	let score: number | undefined
+	if (address === query) score = 100
+	else if (symbol === query) score = 90
+	else if (name === query) score = 85
+	else if (query.startsWith('0x') && address.startsWith(query)) score = 80
+	else if (symbol.startsWith(query)) score = 70
+	else if (name.startsWith(query)) score = 65
+	else if (name.split(/\s+/).some((word) => word.startsWith(query))) score = 60
+	else if (symbol.includes(query) || name.includes(query)) score = 50
+	else {
+		const fuzzy = Math.max(
+			getFuzzyScore(symbol, query) ?? 0,
+			getFuzzyScore(name, query) ?? 0,
+		)
+		if (fuzzy > 0) score = fuzzy
+	}
+	if (score === undefined) return undefined
+
+	return token.extensions?.verified === false ? score : score + 1
+}
+
+/**
+ * Match the characters of a query in order, e.g. `ausd` in `alphausd`.
+ * @returns A score between 1 and 40, higher when the matched characters are
+ * closer together, or `undefined` if the query does not match
+ */
+function getFuzzyScore(text: string, query: string) {
+	let first = -1
+	let last = -1
+	for (const character of query) {
+		last = text.indexOf(character, last + 1)
+		if (last === -1) return undefined
+		if (first === -1) first = last
+	}
+	const span = last - first + 1
+	return Math.max(1, Math.round((40 * query.length) / span))
+}
+
+function compareMatches(a: Match, b: Match) {
+	return (
+		b.score - a.score ||
+		a.token.address.toLowerCase().localeCompare(b.token.address.toLowerCase())
+	)
+}
+
+function encodeCursor(match: Match) {
+	return btoa(`${match.score}:${match.token.address.toLowerCase()}`)
+		.replaceAll('+', '-')
+		.replaceAll('/', '_')
+		.replaceAll('=', '')
+}
+
+function decodeCursor(cursor: string): Match | undefined {
+	try {
+		const [score, address] = atob(
+			cursor.replaceAll('-', '+').replaceAll('_', '/'),
+		).split(':')
+		if (!score || !address || Number.isNaN(Number(score))) return undefined
+		return {
+			score: Number(score),
+			token: { address } as TokenInfo,
+		}
+	} catch {
+		return undefined
+	}
+}